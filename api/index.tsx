@@ -1,90 +1,183 @@
-import { Button, Frog } from 'frog';
+import { Button, Frog, TextInput } from 'frog';
 import { handle } from 'frog/vercel';
 import { neynar } from 'frog/middlewares';
-import { gql, GraphQLClient } from "graphql-request";
+import { randomUUID } from 'node:crypto';
+import { checkPriceAlerts, createPriceAlert, getAlertStore } from '../lib/alerts.js';
+import { buildPriceChart, renderPriceChartDataUri } from '../lib/chart.js';
+import { getTokenComparison, parseCompareInput, type TokenComparison } from '../lib/compare.js';
+import {
+  getChannelInfo,
+  getFanTokenAddressFromFID,
+  getFanTokenInfo,
+  getFanTokenInfoForSymbol,
+  getFanTokenPriceHistory,
+  getHoldingAddressesForFID,
+  getHoldingWalletsForFID,
+  getLastPurchaseTimes,
+  getOwnedFanTokens,
+  getOwnedFanTokensForFID,
+  getPowerboostScore,
+  getProfileInfo,
+  getProfileInfoForIdentity,
+  getRecentHourlySnapshots,
+  getTokenTrades,
+  getTopFanTokenHolders,
+  getVestingContractsForFID,
+  resolveFidFromInput,
+  TOP_HOLDERS_MAX_SKIP,
+} from '../lib/fetchers.js';
+import {
+  formatAmount,
+  formatCount,
+  formatHolderCount,
+  formatPercent,
+  formatTokenAmount,
+  formatUsd,
+  MOXIE_DECIMALS,
+  sumRawAmounts,
+  toDecimalString,
+  type AmountFormatOptions,
+} from '../lib/format.js';
+import { createLogger, runWithTraceId } from '../lib/logger.js';
+import { getMoxieUsdRate, isDisplayCurrency, type DisplayCurrency } from '../lib/prices.js';
+import { restApi } from '../lib/rest-api.js';
+import { getChannelIdFromSymbol, parseChannelInput } from '../lib/symbols.js';
+import {
+  rankTrendingTokens,
+  summarizeTrendingTokens,
+  TRENDING_METRIC_LABELS,
+  type TrendingMetric,
+} from '../lib/trending.js';
+import { signShareState, verifyShareState } from '../lib/share-state.js';
+import {
+  CardBackground,
+  CornerBadge,
+  ErrorScreen,
+  FanTokenCard,
+  MessageScreen,
+  PageIndicator,
+  ProfileAvatar,
+  StatCard,
+  StatRow,
+  TokenHeader,
+} from '../lib/components.js';
+import {
+  DEFAULT_THEME,
+  DEFAULT_THEME_NAME,
+  getAdjacentThemeName,
+  getBackgroundStyle,
+  getPnlColor,
+  isThemeName,
+  THEME_NAMES,
+  THEMES,
+  type ThemeName,
+} from '../lib/theme.js';
+import { getThemeNameForFid, saveThemeNameForFid } from '../lib/theme-preferences.js';
+import {
+  createLatencyBudget,
+  isDeadlineError,
+  isUpstreamError,
+  settle,
+  withFallback,
+  type LatencyBudget,
+} from '../lib/upstream.js';
+import { getVestingSchedule } from '../lib/vesting.js';
+import {
+  applyHoldingsView,
+  DEFAULT_HOLDINGS_VIEW,
+  getHoldingPnl,
+  getHoldingValue,
+  getWalletLabel,
+  HOLDING_SORT_LABELS,
+  HOLDING_TYPE_LABELS,
+  nextOption,
+  shortenAddress,
+  summarizePortfolio,
+  summarizeWallets,
+  type HoldingSort,
+  type HoldingsView,
+  type HoldingTypeFilter,
+  type PortfolioSummary,
+} from '../lib/portfolio.js';
+import type { HoldingWallet, PriceWindow, TokenHolding } from '../lib/types.js';
+
+const log = createLogger('frames');
 
 const AIRSTACK_API_KEY = process.env.AIRSTACK_API_KEY || '';
 const NEYNAR_API_KEY = process.env.NEYNAR_API_KEY || '';
-const MOXIE_API_URL = "https://api.studio.thegraph.com/query/23537/moxie_protocol_stats_mainnet/version/latest";
 
 if (!AIRSTACK_API_KEY) {
-  console.warn('AIRSTACK_API_KEY is not set in the environment variables');
+  log.warn('AIRSTACK_API_KEY is not set in the environment variables');
 }
 
 if (!NEYNAR_API_KEY) {
-  console.warn('NEYNAR_API_KEY is not set in the environment variables');
+  log.warn('NEYNAR_API_KEY is not set in the environment variables');
 }   
 
-type TextBoxProps = {
-  label: string;
-  value: string | number;
+type TokenShareState = {
+  fid: string;
+  currentPrice: string;
+  // Unformatted, so the card can be converted to USD
+  priceInMoxie?: string;
+  powerboost: string;
+  holders: string;
+  // Missing from links shared before themes existed
+  theme?: ThemeName;
+  // Set when someone else's token was shared, so the card isn't titled "My"
+  ownerName?: string;
 };
 
-// Type definitions
-interface TokenHolding {
-  balance: string;
-  buyVolume: string;
-  sellVolume: string;
-  subjectToken: {
-    name: string;
-    symbol: string;
-    currentPriceInMoxie: string;
-    decimals?: number;
-  };
-}
-
-interface SubjectToken {
-  currentPriceInMoxie: string;
-  id: string;
-  name: string;
-  symbol: string;
-  decimals?: number;
-  portfolio: TokenHolding[];
-}
+type OwnedTokenShareState = {
+  fid: string;
+  holding: TokenHolding;
+};
 
-interface TokenInfo {
-  subjectTokens: SubjectToken[];
-}
+type State = {
+  // FID entered on the home frame; null when viewing your own fan token
+  lookupFid: string | null;
+  // Sort and filters for the /owned-tokens carousel
+  holdingsView: HoldingsView;
+  // How MOXIE prices and values are shown
+  currency: DisplayCurrency;
+};
 
-interface ProfileInfo {
-  farcasterSocial: {
-    profileDisplayName: string;
-    profileImage: string;
-    profileBio: string;
-    followerCount: number;
-    followingCount: number;
-    farcasterScore: {
-      farScore: number;
-    };
-  };
-  primaryDomain?: {
-    name: string;
-  };
-}
+// Shown instead of a card when the user has no fan token, or owns none
+const NO_FAN_TOKEN_IMAGE = 'https://bafybeieo4qwdih6sc5p3g7htxhoghjj63hd6lc4kd7kivouruygzpkygde.ipfs.w3s.link/Group%2061%20(5).png';
 
-// Define a common style object to be reused across route
-const commonStyle = {
-  backgroundColor: 'white',
-  width: '100%',
-  height: '100%',
-  display: 'flex',
-  flexDirection: 'column',
-  alignItems: 'center',
-  justifyContent: 'center',
-  fontFamily: '"Protest Riot", sans-serif',
-}
+const NO_OWNED_TOKENS_IMAGE = 'https://bafybeicqe4rjtk6sgcgkhncf3tiquxkjbpbvafn3ixtk5qjnjszumzjv3i.ipfs.w3s.link/Group%2061%20(6).png';
 
-export const app = new Frog({
+export const app = new Frog<{ State: State }>({
   basePath: '/api',
+  initialState: {
+    lookupFid: null,
+    holdingsView: DEFAULT_HOLDINGS_VIEW,
+    currency: 'MOXIE',
+  },
   imageOptions: {
     width: 1200,
     height: 628,
+    // Every font a theme can use; see THEMES in lib/theme.ts
     fonts: [
       {
         name: 'Protest Riot',
         source: 'google',
         weight: 400,
       },
+      {
+        name: 'Inter',
+        source: 'google',
+        weight: 400,
+      },
+      {
+        name: 'Inter',
+        source: 'google',
+        weight: 700,
+      },
+      {
+        name: 'Orbitron',
+        source: 'google',
+        weight: 700,
+      },
     ],
   },
   imageAspectRatio: '1.91:1',
@@ -99,6 +192,23 @@ export const app = new Frog({
   } : undefined
 });
 
+// Every log line written while handling a request, upstream queries included,
+// carries its trace id; Vercel's request id is reused when there is one
+app.use(async (c, next) => {
+  const traceId = c.req.header('x-vercel-id') || randomUUID();
+  const start = performance.now();
+  await runWithTraceId(traceId, async () => {
+    await next();
+    c.header('x-trace-id', traceId);
+    log.info('Request', {
+      method: c.req.method,
+      path: c.req.path,
+      status: c.res.status,
+      durationMs: Math.round(performance.now() - start),
+    });
+  });
+});
+
 app.use(
   neynar({
     apiKey: NEYNAR_API_KEY,
@@ -106,379 +216,132 @@ app.use(
   })
 );
 
-async function getProfileInfo(fid: string): Promise<ProfileInfo | null> {
-  const AIRSTACK_API_URL = 'https://api.airstack.xyz/gql';
-  const graphQLClient = new GraphQLClient(AIRSTACK_API_URL, {
-    headers: {
-      'Authorization': AIRSTACK_API_KEY,
-    },
-  });
-
-  const query = gql`
-    query GetProfileInfo($identity: Identity!) {
-      Wallet(input: { identity: $identity }) {
-        primaryDomain {
-          name
-          avatar
-        }
-      }
-      farcasterSocials: Socials(
-        input: {
-          filter: { identity: { _eq: $identity }, dappName: { _eq: farcaster } }
-          blockchain: ethereum
-          order: { followerCount: DESC }
-        }
-      ) {
-        Social {
-          profileName
-          profileDisplayName
-          profileHandle
-          profileImage
-          profileBio
-          followerCount
-          followingCount
-          farcasterScore {
-            farScore
-          }
-        }
-      }
-    }
-  `;
-
-  const variables = { identity: `fc_fid:${fid}` };
+app.hono.route('/v1', restApi);
 
-  try {
-    const data = await graphQLClient.request<any>(query, variables);
-    console.log('Profile API response data:', JSON.stringify(data, null, 2));
+const pnlColor = (value: number) => getPnlColor(DEFAULT_THEME, value);
 
-    if (!data.farcasterSocials.Social[0]) {
-      throw new Error('Incomplete data in the response');
-    }
+type MoxieDisplay = {
+  currency: DisplayCurrency;
+  // Null when USD wasn't asked for or the rate didn't load
+  usdRate: number | null;
+};
 
-    const social = data.farcasterSocials.Social[0];
-
-    return {
-      primaryDomain: data.Wallet.primaryDomain,
-      farcasterSocial: {
-        profileDisplayName: social.profileDisplayName,
-        profileImage: social.profileImage,
-        profileBio: social.profileBio,
-        followerCount: social.followerCount,
-        followingCount: social.followingCount,
-        farcasterScore: social.farcasterScore,
-      },
-    };
-  } catch (error) {
-    console.error('Error in getProfileInfo:', error);
-    return null;
+const MOXIE_DISPLAY: MoxieDisplay = { currency: 'MOXIE', usdRate: null };
+
+// A MOXIE amount in the viewer's currency; without a rate it stays in MOXIE
+function formatMoxieValue(
+  amount: string | number | null,
+  display: MoxieDisplay,
+  { unit = true, ...options }: AmountFormatOptions & { unit?: boolean } = {}
+): string {
+  const moxie = formatAmount(amount, options);
+  if (moxie === 'N/A') {
+    return moxie;
   }
-}
-
-async function getPowerboostScore(fid: string): Promise<number | null> {
-  const AIRSTACK_API_URL = 'https://api.airstack.xyz/gql';
-  const graphQLClient = new GraphQLClient(AIRSTACK_API_URL, {
-    headers: {
-      'Authorization': AIRSTACK_API_KEY,
-    },
-  });
-
-  const query = gql`
-    query MyQuery($userId: String!) {
-      Socials(
-        input: {
-          filter: {
-            dappName: {_eq: farcaster},
-            userId: {_eq: $userId}
-          },
-          blockchain: ethereum
-        }
-      ) {
-        Social {
-          farcasterScore {
-            powerBoost
-          }
-        }
-      }
-    }
-  `;
-
-  const variables = {
-    userId: fid
-  };
-
-  try {
-    const data = await graphQLClient.request<any>(query, variables);
-    console.log('Airstack API response for powerboost:', JSON.stringify(data, null, 2));
-
-    if (data.Socials.Social && data.Socials.Social[0]?.farcasterScore?.powerBoost) {
-      return data.Socials.Social[0].farcasterScore.powerBoost;
-    } else {
-      console.log(`No powerboost score found for FID: ${fid}`);
-      return null;
-    }
-  } catch (error) {
-    console.error('Error fetching powerboost score from Airstack:', error);
-    return null;
+  if (display.currency === 'USD' && display.usdRate !== null) {
+    return formatUsd(Number(amount) * display.usdRate, options);
   }
+  return unit ? `${moxie} MOXIE` : moxie;
 }
 
-async function getFanTokenAddressFromFID(fid: string): Promise<any> {
-  const graphQLClient = new GraphQLClient(MOXIE_API_URL);
-
-  const query = gql`
-    query MyQuery($symbol_starts_with: String) {
-      subjectTokens(where: {symbol_starts_with: $symbol_starts_with}) {
-        address: id
-        name
-        symbol
-        decimals
-      }
-    }
-  `;
-
-  const variables = {
-    symbol_starts_with: `fid:${fid}`
-  };
-
-  try {
-    const data = await graphQLClient.request<any>(query, variables);
-    console.log('Fan token address query response:', JSON.stringify(data, null, 2));
-
-    if (!data.subjectTokens || data.subjectTokens.length === 0) {
-      console.log(`No fan token found for FID: ${fid}`);
-      return null;
-    }
-
-    return data.subjectTokens[0];
-  } catch (error) {
-    console.error('Error fetching fan token address from Moxie API:', error);
-    return null;
-  }
+function getMoxieDisplay(currency: DisplayCurrency, budget: LatencyBudget): Promise<MoxieDisplay> {
+  return currency === 'USD'
+    ? budget.optional(getMoxieUsdRate(), null).then(usdRate => ({ currency, usdRate }))
+    : Promise.resolve(MOXIE_DISPLAY);
 }
 
-async function getFanTokenInfo(fid: string): Promise<TokenInfo | null> {
-  const graphQLClient = new GraphQLClient(MOXIE_API_URL);
-
-  // First, get the fan token address from FIDs
-  const tokenAddressInfo = await getFanTokenAddressFromFID(fid);
-  
-  if (!tokenAddressInfo) {
-    console.log(`No fan token found for FID: ${fid}`);
-    return null;
-  }
-
-  const query = gql`
-    query MyQuery($fanTokenAddress: ID) {
-      subjectTokens(where: { id: $fanTokenAddress }) {
-        currentPriceInMoxie
-        id
-        name
-        symbol
-        portfolio {
-          balance
-          user {
-            id
-          }
-        }
-      }
-    }
-  `;
-
-  const variables = {
-    fanTokenAddress: tokenAddressInfo.address.toLowerCase()
-  };
-
-  try {
-    const data = await graphQLClient.request<any>(query, variables);
-    console.log('Moxie API response:', JSON.stringify(data, null, 2));
+const otherCurrency = (currency: DisplayCurrency): DisplayCurrency => currency === 'USD' ? 'MOXIE' : 'USD';
 
-    if (!data.subjectTokens || data.subjectTokens.length === 0) {
-      console.log(`No fan token information found for address: ${tokenAddressInfo.address}`);
-      return null;
-    }
+// Labelled with the currency a tap switches to
+const currencyToggleLabel = (currency: DisplayCurrency) => `In ${otherCurrency(currency)}`;
 
-    return {
-      subjectTokens: data.subjectTokens
-    };
-  } catch (error) {
-    console.error('Error fetching fan token info from Moxie API:', error);
-    return null;
-  }
+function PortfolioSummaryCard({ summary }: { summary: PortfolioSummary }) {
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      width: '1200px',
+      height: '628px',
+      ...getBackgroundStyle(DEFAULT_THEME.holdingBackground),
+      padding: '40px',
+      boxSizing: 'border-box',
+      color: '#000000',
+    }}>
+      <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', width: '560px' }}>
+        <div style={{ display: 'flex', fontSize: '44px', marginBottom: '10px', textShadow: '0 0 10px rgba(128, 0, 128, 0.5)' }}>
+          My Portfolio
+        </div>
+        <div style={{ display: 'flex', fontSize: '56px', fontWeight: 'bold', marginBottom: '20px' }}>
+          {formatAmount(summary.totalValue)} MOXIE
+        </div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center' }}>
+          <StatCard label="Bought" value={`${formatAmount(summary.buyVolume)} MOXIE`} />
+          <StatCard label="Sold" value={`${formatAmount(summary.sellVolume)} MOXIE`} />
+        </div>
+        <div style={{ display: 'flex', justifyContent: 'center', fontSize: '28px', marginTop: '10px' }}>
+          <div style={{ display: 'flex', marginRight: '30px' }}>
+            Unrealised:&nbsp;<span style={{ color: pnlColor(summary.unrealisedPnl) }}>{formatAmount(summary.unrealisedPnl, { signed: true })}</span>
+          </div>
+          <div style={{ display: 'flex' }}>
+            Realised:&nbsp;<span style={{ color: pnlColor(summary.realisedPnl) }}>{formatAmount(summary.realisedPnl, { signed: true })}</span>
+          </div>
+        </div>
+      </div>
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column',
+        width: '520px',
+        backgroundColor: 'rgba(255, 255, 255, 0.8)',
+        borderRadius: '15px',
+        padding: '20px',
+        boxShadow: '0 4px 8px rgba(0, 0, 0, 0.1)',
+      }}>
+        <div style={{ display: 'flex', fontSize: '32px', fontWeight: 'bold', marginBottom: '10px' }}>
+          Top {summary.topHoldings.length} of {summary.holdingsCount} holdings
+        </div>
+        {summary.topHoldings.map(({ holding, value }, i) => (
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '28px', padding: '8px 0' }}>
+            <div style={{ display: 'flex' }}>{i + 1}. {holding.subjectToken.name}</div>
+            <div style={{ display: 'flex' }}>{formatAmount(value)} MOXIE</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
 }
 
-async function getFarcasterAddressesFromFID(fid: string): Promise<string[]> {
-  const AIRSTACK_API_URL = 'https://api.airstack.xyz/gql';
-  const graphQLClient = new GraphQLClient(AIRSTACK_API_URL, {
-    headers: {
-      'Authorization': AIRSTACK_API_KEY,
-    },
-  });
-
-  const query = gql`
-    query MyQuery($identity: Identity!) {
-      Socials(
-        input: {
-          filter: { dappName: { _eq: farcaster }, identity: { _eq: $identity } }
-          blockchain: ethereum
-        }
-      ) {
-        Social {
-          userAddress
-          userAssociatedAddresses
-        }
-      }
-    }
-  `;
-
-  const variables = {
-    identity: `fc_fid:${fid}`
-  };
-
-  try {
-    const data = await graphQLClient.request<any>(query, variables);
-    console.log('Airstack API response:', JSON.stringify(data, null, 2));
-
-    if (!data.Socials || !data.Socials.Social || data.Socials.Social.length === 0) {
-      throw new Error(`No Farcaster profile found for FID: ${fid}`);
-    }
-
-    const social = data.Socials.Social[0];
-    const addresses = [social.userAddress, ...(social.userAssociatedAddresses || [])];
-    return [...new Set(addresses)]; // Remove duplicates
-  } catch (error) {
-    console.error('Error fetching Farcaster addresses from Airstack:', error);
-    throw error;
-  }
+// Holdings in the order the carousel shows them, so indexes in button values
+// mean the same thing in every /owned-tokens frame. Takes the user's holding
+// addresses so callers that also need the wallets resolve them only once.
+async function getOwnedTokensInView(addresses: string[], view: HoldingsView) {
+  const [holdings, lastPurchases] = await Promise.all([
+    getOwnedFanTokens(addresses),
+    view.sort === 'recent' ? withFallback(getLastPurchaseTimes(addresses), {}) : {},
+  ]);
+  return applyHoldingsView(holdings || [], view, lastPurchases);
 }
 
-async function getVestingContractAddress(beneficiaryAddresses: string[]): Promise<string | null> {
-  const MOXIE_VESTING_API_URL = "https://api.studio.thegraph.com/query/23537/moxie_vesting_mainnet/version/latest";
-  const graphQLClient = new GraphQLClient(MOXIE_VESTING_API_URL);
-
-  const query = gql`
-    query MyQuery($beneficiaries: [Bytes!]) {
-      tokenLockWallets(where: {beneficiary_in: $beneficiaries}) {
-        address: id
-        beneficiary
-      }
-    }
-  `;
-
-  const variables = {
-    beneficiaries: beneficiaryAddresses.map(address => address.toLowerCase())
-  };
 
-  try {
-    const data = await graphQLClient.request<any>(query, variables);
-    console.log('Vesting contract data:', JSON.stringify(data, null, 2));
-
-    if (data.tokenLockWallets && data.tokenLockWallets.length > 0) {
-      return data.tokenLockWallets[0].address;
-    } else {
-      console.log(`No vesting contract found for addresses: ${beneficiaryAddresses.join(', ')}`);
-      return null;
-    }
-  } catch (error) {
-    console.error('Error fetching vesting contract address:', error);
-    return null;
+function describeHoldingsView(view: HoldingsView, wallets: HoldingWallet[] = []): string {
+  const parts = [`Sorted by ${HOLDING_SORT_LABELS[view.sort]}`, HOLDING_TYPE_LABELS[view.type]];
+  if (view.minValue > 0) {
+    parts.push(`≥ ${view.minValue} MOXIE`);
   }
-}
-
-async function getOwnedFanTokens(addresses: string[]): Promise<TokenHolding[] | null> {
-  const graphQLClient = new GraphQLClient(MOXIE_API_URL);
-  const pageSize = 1000; // Large page size to minimize API calls
-  let allTokens: TokenHolding[] = [];
-  let hasMore = true;
-  let skip = 0;
-
-  const query = gql`
-    query MyQuery($userAddresses: [ID!], $first: Int!, $skip: Int!) {
-      users(where: { id_in: $userAddresses }) {
-        portfolio(first: $first, skip: $skip, orderBy: balance, orderDirection: desc) {
-          balance
-          buyVolume
-          sellVolume
-          subjectToken {
-            name
-            symbol
-            currentPriceInMoxie
-            decimals
-          }
-        }
-      }
-    }
-  `;
-
-  try {
-    while (hasMore) {
-      const variables = {
-        userAddresses: addresses.map(address => address.toLowerCase()),
-        first: pageSize,
-        skip: skip
-      };
-
-      const data = await graphQLClient.request<any>(query, variables);
-      console.log(`Fetching page ${skip/pageSize + 1}, skip: ${skip}`);
-
-      if (!data.users || data.users.length === 0) {
-        break;
-      }
-
-      const pageTokens = data.users.flatMap((user: { portfolio: TokenHolding[] }) => user.portfolio);
-      
-      if (pageTokens.length === 0) {
-        hasMore = false;
-      } else {
-        allTokens = [...allTokens, ...pageTokens];
-        skip += pageSize;
-        
-        // If we got less than pageSize tokens, we've reached the end
-        if (pageTokens.length < pageSize) {
-          hasMore = false;
-        }
-      }
-    }
-
-    console.log(`Total tokens fetched: ${allTokens.length}`);
-
-    if (allTokens.length === 0) {
-      console.log(`No fan tokens found for addresses: ${addresses.join(', ')}`);
-      return null;
-    }
-
-    // Sort by balance in descending order
-    return allTokens.sort((a, b) => {
-      const balanceA = parseFloat(a.balance);
-      const balanceB = parseFloat(b.balance);
-      return balanceB - balanceA;
-    });
-
-  } catch (error) {
-    console.error('Error fetching owned fan tokens from Moxie API:', error);
-    return null;
+  if (view.wallet) {
+    parts.push(getWalletLabel(wallets, view.wallet));
   }
+  return parts.join(' · ');
 }
 
-function TextBox({ label, value }: { label: string; value: string }) {
-  return (
-    <div style={{ 
-      display: 'flex',
-      flexDirection: 'column',
-      alignItems: 'center',
-      justifyContent: 'center',
-      backgroundColor: 'rgba(255, 255, 255, 0.8)',
-      padding: '10px',
-      margin: '5px',
-      borderRadius: '10px',
-      fontSize: '28px',
-      width: '300px',
-      height: '130px',
-      boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
-    }}>
-      <div style={{ fontWeight: 'bold', color: '#000000' }}>{label}</div>
-      <div style={{ color: '#000000', fontSize: '32px' }}>{value}</div>
-    </div>
-  );
+// Retrying only helps when the upstream was slow or down, not when it
+// rejected the query
+function retryIntents(error: unknown, action: string, value?: string) {
+  const retryable = isDeadlineError(error) || (isUpstreamError(error) && error.kind !== 'rejected');
+  return retryable
+    ? [<Button action={action} value={value}>Retry</Button>]
+    : [];
 }
 
 // The code stops here, right before the (/) route starts
@@ -487,9 +350,10 @@ function TextBox({ label, value }: { label: string; value: string }) {
 app.frame('/', (c) => {
   return c.res({
     image: (
-      <div style={{...commonStyle, backgroundColor: 'black'}}>
+      <CardBackground background={DEFAULT_THEME.screenBackground}>
         <div
           style={{
+            display: 'flex',
             fontSize: '72px',
             fontWeight: 'bold',
             textAlign: 'center',
@@ -497,13 +361,14 @@ app.frame('/', (c) => {
             letterSpacing: '4px',
             textShadow: '0 0 10px rgba(255,215,0,0.7), 0 0 20px rgba(255,215,0,0.5), 0 0 30px rgba(255,215,0,0.3)',
             marginBottom: '20px',
-            color: 'white', // Changed to white
+            color: DEFAULT_THEME.textColor,
           }}
         >
           You & Your
         </div>
         <div
           style={{
+            display: 'flex',
             fontSize: '96px',
             fontWeight: 'bold',
             textAlign: 'center',
@@ -517,62 +382,95 @@ app.frame('/', (c) => {
         >
           Fan Tokens
         </div>
-      </div>
+      </CardBackground>
     ),
     intents: [
-      <Button action="/yourfantoken">Your Fan Token</Button>,
+      <TextInput placeholder="Handle, fid:N or #N, 0x address or /channel" />,
+      <Button action="/yourfantoken" value="self">Your Fan Token</Button>,
+      <Button action="/yourfantoken" value="lookup">Look Up</Button>,
+      <Button action="/channel-token" value="lookup">Channel</Button>,
+      <Button action="/portfolio-summary">Portfolio</Button>,
     ],
   });
 });
 
 app.frame('/yourfantoken', async (c) => {
-  console.log('Entering /yourfantoken frame');
   const { fid } = c.frameData ?? {};
 
-  console.log(`FID: ${fid}`);
+  log.debug('Frame request', { fid });
 
   if (!fid) {
-    console.error('No FID found in frameData');
+    log.warn('No FID found in frameData');
     return c.res({
-      image: (
-        <div style={commonStyle}>
-          <h1 style={{ fontSize: '64px', color: '#ffffff', textAlign: 'center' }}>Error: No FID</h1>
-        </div>
-      ),
+      image: <ErrorScreen message="Error: No FID" />,
       intents: [
         <Button action="/">Back</Button>
       ]
     });
   }
 
+  const budget = createLatencyBudget();
+
   try {
-    let tokenInfo = await getFanTokenInfo(fid.toString());
-    let profileInfo = await getProfileInfo(fid.toString());
-    console.log('Profile Info:', JSON.stringify(profileInfo, null, 2));
-    let powerboostScore = await getPowerboostScore(fid.toString());
+    // "Look Up" resolves the home frame's text input, "Your Fan Token" clears it,
+    // links from other frames pass fid:<FID>, the theme picker passes
+    // theme:<name> to save it, and every other button (including the currency
+    // toggle) keeps showing whoever was being viewed
+    let lookupFid = c.previousState.lookupFid;
+    let currency = c.previousState.currency;
+    const inputText = c.inputText?.trim();
+
+    if (c.buttonValue === 'self') {
+      lookupFid = null;
+    } else if (c.buttonValue === 'currency') {
+      currency = otherCurrency(currency);
+    } else if (c.buttonValue?.startsWith('theme:')) {
+      const themeName = c.buttonValue.split(':')[1];
+      if (isThemeName(themeName)) {
+        await saveThemeNameForFid(fid.toString(), themeName);
+      }
+      lookupFid = null;
+    } else if (c.buttonValue?.startsWith('fid:')) {
+      lookupFid = c.buttonValue.split(':')[1];
+    } else if (c.buttonValue === 'lookup' && inputText) {
+      lookupFid = await budget.required(resolveFidFromInput(inputText));
+      log.info('Resolved lookup', { input: inputText, lookupFid });
+
+      if (!lookupFid) {
+        return c.res({
+          image: <ErrorScreen message="User not found" hint={`No Farcaster account matches "${inputText}"`} />,
+          intents: [
+            <Button action="/">Back</Button>,
+            <Button action="/yourfantoken" value="self">Your Fan Token</Button>,
+          ],
+        });
+      }
+    }
+
+    c.deriveState(previousState => {
+      previousState.lookupFid = lookupFid;
+      previousState.currency = currency;
+    });
+
+    const targetFid = lookupFid ?? fid.toString();
+    const isOwnToken = targetFid === fid.toString();
 
-    console.log('Token Info:', JSON.stringify(tokenInfo, null, 2));
-    console.log('Profile Info:', JSON.stringify(profileInfo, null, 2));
-    console.log('Powerboost Score:', powerboostScore);
+    // Only the token itself is needed to render; the profile and powerboost
+    // fall back to placeholders if they fail or miss the deadline
+    const [tokenInfo, profileInfo, powerboostScore, themeName, display] = await Promise.all([
+      budget.required(getFanTokenInfo(targetFid)),
+      budget.optional(getProfileInfo(targetFid), null),
+      budget.optional(getPowerboostScore(targetFid), null),
+      budget.optional(getThemeNameForFid(targetFid), DEFAULT_THEME_NAME),
+      getMoxieDisplay(currency, budget),
+    ]);
+
+    log.debug('Fan token data', { targetFid, tokenInfo, profileInfo, powerboostScore, themeName, display });
 
     if (!tokenInfo || !tokenInfo.subjectTokens || tokenInfo.subjectTokens.length === 0) {
       // No fan token found, display the IPFS image without text
       return c.res({
-        image: (
-          <div style={{
-            width: '1200px',
-            height: '628px',
-            backgroundImage: 'url(https://bafybeieo4qwdih6sc5p3g7htxhoghjj63hd6lc4kd7kivouruygzpkygde.ipfs.w3s.link/Group%2061%20(5).png)',
-            backgroundSize: 'cover',
-            backgroundPosition: 'center',
-            display: 'flex',
-            flexDirection: 'column',
-            alignItems: 'center',
-            justifyContent: 'center',
-          }}>
-            {/* Removed the "No Fan Token Found" text */}
-          </div>
-        ),
+        image: <CardBackground background={NO_FAN_TOKEN_IMAGE} />,
         intents: [
           <Button action="/">Back</Button>,
           <Button action="/yourfantoken">Refresh</Button>,
@@ -580,305 +478,406 @@ app.frame('/yourfantoken', async (c) => {
       });
     }
 
-    function TextBox({ label, value }: TextBoxProps) {
-      return (
-        <div style={{
-          backgroundColor: 'rgba(255, 255, 255, 0.8)',
-          padding: '15px',
-          margin: '10px',
-          borderRadius: '15px',
-          fontFamily: 'Arial, sans-serif',
-          fontSize: '28px',
-          display: 'flex',
-          flexDirection: 'column',
-          alignItems: 'center',
-          justifyContent: 'center',
-          width: '300px',
-          height: '130px',
-          boxShadow: '0 4px 8px rgba(0, 0, 0, 0.1)',
-        }}>
-          <div style={{ fontWeight: 'bold', marginBottom: '5px' }}>{label}</div>
-          <div style={{ fontSize: '32px' }}>{value}</div>
-        </div>
-      );
-    }
-
-    const currentPrice = tokenInfo?.subjectTokens[0] ? parseFloat(tokenInfo.subjectTokens[0].currentPriceInMoxie).toFixed(2) : 'N/A';
-    const holders = tokenInfo?.subjectTokens[0] ? tokenInfo.subjectTokens[0].portfolio.length.toString() : 'N/A';
-    const powerboost = powerboostScore !== null ? powerboostScore.toFixed(2) : 'N/A';
-
-    console.log('Formatted data:', { currentPrice, holders, powerboost });
-
-    const backgroundImage = 'https://bafybeidk74qchajtzcnpnjfjo6ku3yryxkn6usjh2jpsrut7lgom6g5n2m.ipfs.w3s.link/Untitled%20543%201.png';
-
-    const profileImageUrl = profileInfo?.farcasterSocial?.profileImage;
-    console.log('Profile Image URL:', profileImageUrl);
-
-    const shareText = `Check out my Fan Token powered by @moxie.eth 👏. Current Price: ${currentPrice} MOXIE, Powerboost: ${powerboost}, Holders: ${holders}. Frame by @goldie`;
-    const shareUrl = `https://fantokens-kappa.vercel.app/api/share?fid=${fid}&currentPrice=${encodeURIComponent(currentPrice)}&powerboost=${encodeURIComponent(powerboost)}&holders=${encodeURIComponent(holders)}&timestamp=${Date.now()}`;
+    const priceInMoxie = tokenInfo.subjectTokens[0].currentPriceInMoxie;
+    const currentPrice = formatAmount(priceInMoxie);
+    const displayPrice = formatMoxieValue(priceInMoxie, display);
+    const holders = formatHolderCount(tokenInfo.subjectTokens[0]);
+    const powerboost = formatAmount(powerboostScore);
+
+    const ownerName = profileInfo?.farcasterSocial?.profileDisplayName || `FID ${targetFid}`;
+    const title = isOwnToken ? 'My Fan Token' : `${ownerName}'s Fan Token`;
+    const shareText = isOwnToken
+      ? `Check out my Fan Token powered by @moxie.eth 👏. Current Price: ${displayPrice}, Powerboost: ${powerboost}, Holders: ${holders}. Frame by @goldie`
+      : `Check out ${ownerName}'s Fan Token powered by @moxie.eth 👏. Current Price: ${displayPrice}, Powerboost: ${powerboost}, Holders: ${holders}. Frame by @goldie`;
+    const shareState = signShareState<TokenShareState>({
+      fid: targetFid,
+      currentPrice,
+      priceInMoxie,
+      powerboost,
+      holders,
+      theme: themeName,
+      ...(isOwnToken ? {} : { ownerName }),
+    });
+    // The currency is only a display choice, so it rides outside the signed payload
+    const shareUrl = `https://fantokens-kappa.vercel.app/api/share?fid=${targetFid}&currency=${display.currency}&s=${shareState}`;
     const farcasterShareURL = `https://warpcast.com/~/compose?text=${encodeURIComponent(shareText)}&embeds[]=${encodeURIComponent(shareUrl)}`;
     
     return c.res({
       image: (
-        <div style={{ 
-          display: 'flex', 
-          flexDirection: 'column',
-          alignItems: 'center',
-          justifyContent: 'center',
-          width: '1200px', 
-          height: '628px', 
-          backgroundImage: `url(${backgroundImage})`,
-          backgroundSize: 'cover',
-          backgroundPosition: 'center',
-          color: '#000000',
-          padding: '20px',
-          boxSizing: 'border-box',
-        }}>
-          <div style={{
-            display: 'flex',
-            flexDirection: 'column',
-            alignItems: 'center',
-            width: '180px',
-            height: '180px',
-            borderRadius: '50%',
-            overflow: 'hidden',
-            backgroundColor: '#FFA500',
-            marginBottom: '20px',
-            boxShadow: '0 0 20px rgba(255, 165, 0, 0.5)',
-          }}>
-            {profileImageUrl ? (
-              <img 
-                src={profileImageUrl}
-                alt={profileInfo?.farcasterSocial?.profileDisplayName || "Profile"}
-                width={180}
-                height={180}
-                style={{ 
-                  objectFit: 'cover',
-                  borderRadius: '50%',
-                }}
-                onError={(e: { currentTarget: { style: { display: string; }; }; }) => {
-                  console.error('Image load error:', e);
-                  e.currentTarget.style.display = 'none';
-                }}
-              />
-            ) : (
-              <div style={{ 
-                width: '180px',
-                height: '180px',
-                backgroundColor: '#FFA500',
-                borderRadius: '50%',
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
-                color: '#ffffff',
-                fontSize: '24px'
-              }}>
-                No Image
-              </div>
-            )}
-          </div>
-          
-          <h1 style={{ 
-            fontSize: '48px', 
-            fontWeight: 'bold', 
-            textAlign: 'center', 
-            margin: '10px 0 20px',
-            color: '#ffffff',
-            textShadow: '2px 2px 4px rgba(0,0,0,0.1)'
-          }}>
-            My Fan Token
-          </h1>
-          
-          <div style={{
-            display: 'flex',
-            justifyContent: 'center',
-            alignItems: 'center',
-            width: '100%',
-            maxWidth: '1000px',
-          }}>
-            <TextBox label="Current Price" value={`${currentPrice} MOXIE`} />
-            <TextBox label="Powerboost" value={powerboost} />
-            <TextBox label="Holders" value={holders} />
-          </div>
-        </div>
+        <FanTokenCard
+          title={title}
+          imageUrl={profileInfo?.farcasterSocial?.profileImage}
+          currentPrice={displayPrice}
+          powerboost={powerboost}
+          holders={holders}
+          theme={THEMES[themeName]}
+        />
       ),
+      // The chart, holders and theme picker live under More
       intents: [
-        <Button action="/">Back</Button>,
-        <Button action="/yourfantoken">Refresh</Button>,
-        <Button action="/owned-tokens">Owned</Button>,
+        <Button action="/">Home</Button>,
+        <Button action="/yourfantoken" value="currency">{currencyToggleLabel(currency)}</Button>,
+        <Button action="/yourfantoken/menu">More</Button>,
         <Button.Link href={farcasterShareURL}>Share</Button.Link>
       ],
     });
   } catch (error) {
-    console.error('Error fetching fan token data:', error);
+    log.error('Error fetching fan token data', { fid, error });
     
     return c.res({
-      image: (
-        <div style={commonStyle}>
-          <h1 style={{ fontSize: '36px', color: '#ffffff', textAlign: 'center' }}>Error fetching fan token data. Please try again.</h1>
-        </div>
-      ),
+      image: <ErrorScreen error={error} message="Error fetching fan token data" />,
       intents: [
-        <Button action="/">Home</Button>
+        <Button action="/">Home</Button>,
+        ...retryIntents(error, '/yourfantoken', c.buttonValue),
       ]
     });
   }
 });
 
-app.frame('/share', async (c) => {
-  console.log('Entering /share frame');
-  const fid = c.req.query('fid') || c.frameData?.fid?.toString();
-  const currentPrice = c.req.query('currentPrice');
-  const powerboost = c.req.query('powerboost');
-  const holders = c.req.query('holders');
-  const timestamp = c.req.query('timestamp');
+app.frame('/yourfantoken/menu', (c) => {
+  const { fid } = c.frameData || {};
+  const { lookupFid } = c.previousState;
+  // Only creators restyle their own card
+  const isOwnToken = !lookupFid || lookupFid === fid?.toString();
+
+  return c.res({
+    image: (
+      <MessageScreen title={isOwnToken ? 'My Fan Token' : `FID ${lookupFid}'s Fan Token`} message={isOwnToken ? 'Price chart, your holdings and card theme' : 'Price chart, your holdings and top holders'} />
+    ),
+    // Creators reach their holders from the chart to make room for Theme
+    intents: [
+      <Button action="/yourfantoken">Back</Button>,
+      <Button action="/yourfantoken/chart" value="24h">Chart</Button>,
+      <Button action="/owned-tokens" value="0">Owned</Button>,
+      isOwnToken
+        ? <Button action="/yourfantoken/theme">Theme</Button>
+        : <Button action="/holders" value="0">Holders</Button>,
+    ],
+  });
+});
+
+// Previews your own card in each theme; "Use" saves the shown theme through
+// /yourfantoken so the card and its share image pick it up straight away
+app.frame('/yourfantoken/theme', async (c) => {
+  const { fid } = c.frameData || {};
 
-  console.log(`FID: ${fid}, Current Price: ${currentPrice}, Powerboost: ${powerboost}, Holders: ${holders}, Timestamp: ${timestamp}`);
+  log.debug('Frame request', { fid, buttonValue: c.buttonValue });
 
   if (!fid) {
-    console.error('No FID provided');
+    log.warn('No FID found in frameData');
     return c.res({
-      image: (
-        <div style={commonStyle}>
-          <h1 style={{ fontSize: '48px', color: '#ffffff', textAlign: 'center' }}>Error: No FID provided</h1>
-        </div>
-      ),
+      image: <ErrorScreen message="Error: No FID" />,
       intents: [
-        <Button action="/">Home</Button>
+        <Button action="/">Back</Button>
       ]
     });
   }
 
-  try {
-    let profileInfo = await getProfileInfo(fid);
-    console.log('Profile Info:', JSON.stringify(profileInfo, null, 2));
+  const budget = createLatencyBudget();
 
-    function TextBox({ label, value }: TextBoxProps) {
-      return (
-        <div style={{
-          backgroundColor: 'rgba(255, 255, 255, 0.8)',
-          padding: '15px',
-          margin: '10px',
-          borderRadius: '15px',
-          fontFamily: 'Arial, sans-serif',
-          fontSize: '28px',
-          display: 'flex',
-          flexDirection: 'column',
-          alignItems: 'center',
-          justifyContent: 'center',
-          width: '300px',
-          height: '130px',
-          boxShadow: '0 4px 8px rgba(0, 0, 0, 0.1)',
-        }}>
-          <div style={{ fontWeight: 'bold', marginBottom: '5px' }}>{label}</div>
-          <div style={{ fontSize: '32px' }}>{value}</div>
-        </div>
-      );
+  try {
+    const [tokenInfo, profileInfo, powerboostScore, savedThemeName, display] = await Promise.all([
+      budget.required(getFanTokenInfo(fid.toString())),
+      budget.optional(getProfileInfo(fid.toString()), null),
+      budget.optional(getPowerboostScore(fid.toString()), null),
+      budget.optional(getThemeNameForFid(fid.toString()), DEFAULT_THEME_NAME),
+      getMoxieDisplay(c.previousState.currency, budget),
+    ]);
+    const themeName = isThemeName(c.buttonValue) ? c.buttonValue : savedThemeName;
+    const theme = THEMES[themeName];
+    const subjectToken = tokenInfo?.subjectTokens[0];
+
+    if (!subjectToken) {
+      return c.res({
+        image: <CardBackground background={NO_FAN_TOKEN_IMAGE} />,
+        intents: [
+          <Button action="/yourfantoken" value="self">Back</Button>,
+        ],
+      });
     }
 
-    console.log('Formatted data:', { currentPrice, holders, powerboost });
+    return c.res({
+      image: (
+        <FanTokenCard
+          title="My Fan Token"
+          imageUrl={profileInfo?.farcasterSocial?.profileImage}
+          currentPrice={formatMoxieValue(subjectToken.currentPriceInMoxie, display)}
+          powerboost={formatAmount(powerboostScore)}
+          holders={formatHolderCount(subjectToken)}
+          theme={theme}
+        >
+          <CornerBadge position="top-left" theme={theme}>
+            {theme.label}{themeName === savedThemeName ? ' (current)' : ''}
+          </CornerBadge>
+          <PageIndicator current={THEME_NAMES.indexOf(themeName) + 1} total={THEME_NAMES.length} theme={theme} />
+        </FanTokenCard>
+      ),
+      intents: [
+        <Button action="/yourfantoken" value="self">Back</Button>,
+        <Button action="/yourfantoken/theme" value={getAdjacentThemeName(themeName, -1)}>◀</Button>,
+        <Button action="/yourfantoken/theme" value={getAdjacentThemeName(themeName, 1)}>▶</Button>,
+        <Button action="/yourfantoken" value={`theme:${themeName}`}>Use {theme.label}</Button>,
+      ],
+    });
+  } catch (error) {
+    log.error('Error fetching fan token data', { fid, error });
+
+    return c.res({
+      image: <ErrorScreen error={error} message="Error fetching fan token data" />,
+      intents: [
+        <Button action="/yourfantoken" value="self">Back</Button>,
+        ...retryIntents(error, '/yourfantoken/theme', c.buttonValue),
+      ]
+    });
+  }
+});
 
-    const backgroundImage = 'https://bafybeidk74qchajtzcnpnjfjo6ku3yryxkn6usjh2jpsrut7lgom6g5n2m.ipfs.w3s.link/Untitled%20543%201.png';
+app.frame('/yourfantoken/chart', async (c) => {
+  const { fid } = c.frameData ?? {};
+  const priceWindows: PriceWindow[] = ['24h', '7d', '30d'];
+  const priceWindow = priceWindows.find(w => w === c.buttonValue) ?? '24h';
 
-    const profileImageUrl = profileInfo?.farcasterSocial?.profileImage;
+  log.debug('Frame request', { fid, priceWindow });
+
+  if (!fid) {
+    log.warn('No FID found in frameData');
+    return c.res({
+      image: <ErrorScreen message="Error: No FID" />,
+      intents: [
+        <Button action="/">Back</Button>
+      ]
+    });
+  }
+
+  const windowIntents = [
+    <Button action="/yourfantoken">Back</Button>,
+    ...priceWindows
+      .filter(w => w !== priceWindow)
+      .map(w => <Button action="/yourfantoken/chart" value={w}>{w}</Button>),
+    <Button action="/holders" value="0">Holders</Button>,
+  ];
+
+  const budget = createLatencyBudget();
+
+  try {
+    const targetFid = c.previousState.lookupFid ?? fid.toString();
+    const tokenAddressInfo = await budget.required(getFanTokenAddressFromFID(targetFid));
+
+    if (!tokenAddressInfo) {
+      return c.res({
+        image: <CardBackground background={NO_FAN_TOKEN_IMAGE} />,
+        intents: [
+          <Button action="/">Back</Button>,
+        ],
+      });
+    }
+
+    const history = await budget.required(getFanTokenPriceHistory(tokenAddressInfo.address, priceWindow)) || [];
+    const chartWidth = 1000;
+    const chartHeight = 340;
+    const chart = buildPriceChart(history, chartWidth, chartHeight);
+
+    log.debug('Price points', { priceWindow, count: history.length });
+
+    const lineColor = chart && chart.changePercent < 0 ? '#FF4D4D' : '#2ECC71';
+    const change = chart ? formatPercent(chart.changePercent, { fractionDigits: 2 }) : '';
 
     return c.res({
       image: (
-        <div style={{ 
-          display: 'flex', 
+        <div style={{
+          display: 'flex',
           flexDirection: 'column',
           alignItems: 'center',
           justifyContent: 'center',
-          width: '1200px', 
-          height: '628px', 
-          backgroundImage: `url(${backgroundImage})`,
-          backgroundSize: 'cover',
-          backgroundPosition: 'center',
-          color: '#000000',
+          width: '1200px',
+          height: '628px',
+          ...getBackgroundStyle(DEFAULT_THEME.tokenBackground),
           padding: '20px',
           boxSizing: 'border-box',
         }}>
           <div style={{
             display: 'flex',
-            flexDirection: 'column',
+            justifyContent: 'space-between',
             alignItems: 'center',
-            width: '180px',
-            height: '180px',
-            borderRadius: '50%',
-            overflow: 'hidden',
-            backgroundColor: '#FFA500',
+            width: `${chartWidth}px`,
             marginBottom: '20px',
-            boxShadow: '0 0 20px rgba(255, 165, 0, 0.5)',
+            fontSize: '40px',
+            color: '#ffffff',
+            textShadow: '2px 2px 4px rgba(0,0,0,0.3)',
           }}>
-            {profileImageUrl ? (
-              <img 
-                src={profileImageUrl}
-                alt={profileInfo?.farcasterSocial?.profileDisplayName || "Profile"}
-                width={180}
-                height={180}
-                style={{ 
-                  objectFit: 'cover',
-                  borderRadius: '50%',
-                }}
-                onError={(e: { currentTarget: { style: { display: string; }; }; }) => {
-                  console.error('Image load error:', e);
-                  e.currentTarget.style.display = 'none';
-                }}
-              />
-            ) : (
-              <div style={{ 
-                width: '180px',
-                height: '180px',
-                backgroundColor: '#FFA500',
-                borderRadius: '50%',
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
-                color: '#ffffff',
-                fontSize: '24px'
-              }}>
-                No Image
+            <div style={{ display: 'flex' }}>{tokenAddressInfo.name} · {priceWindow}</div>
+            {chart && (
+              <div style={{ display: 'flex' }}>
+                {formatAmount(chart.lastPrice)} MOXIE
+                <span style={{ marginLeft: '20px', color: lineColor }}>{change}</span>
               </div>
             )}
           </div>
-          
-          <h1 style={{ 
-            fontSize: '48px', 
-            fontWeight: 'bold', 
-            textAlign: 'center', 
-            margin: '10px 0 20px',
-            color: '#ffffff',
-            textShadow: '2px 2px 4px rgba(0,0,0,0.1)'
-          }}>
-            My Fan Token
-          </h1>
-          
-          <div style={{
-            display: 'flex',
-            justifyContent: 'center',
-            alignItems: 'center',
-            width: '100%',
-            maxWidth: '1000px',
-          }}>
-            <TextBox label="Current Price" value={`${currentPrice} MOXIE`} />
-            <TextBox label="Powerboost" value={powerboost?.toString() || ''} />
-            <TextBox label="Holders" value={holders?.toString() || ''} />
-          </div>
+          {chart ? (
+            <div style={{
+              display: 'flex',
+              position: 'relative',
+              backgroundColor: 'rgba(255, 255, 255, 0.8)',
+              borderRadius: '15px',
+              padding: '20px',
+              boxShadow: '0 4px 8px rgba(0, 0, 0, 0.1)',
+            }}>
+              <img
+                src={renderPriceChartDataUri(chart, chartWidth, chartHeight, lineColor)}
+                width={chartWidth - 40}
+                height={chartHeight}
+              />
+              <div style={{ display: 'flex', position: 'absolute', top: '10px', left: '20px', fontSize: '22px', color: '#000000' }}>
+                High {formatAmount(chart.maxPrice)}
+              </div>
+              <div style={{ display: 'flex', position: 'absolute', bottom: '10px', left: '20px', fontSize: '22px', color: '#000000' }}>
+                Low {formatAmount(chart.minPrice)}
+              </div>
+            </div>
+          ) : (
+            <div style={{
+              display: 'flex',
+              backgroundColor: 'rgba(255, 255, 255, 0.8)',
+              borderRadius: '15px',
+              padding: '40px',
+              fontSize: '36px',
+              color: '#000000',
+            }}>
+              Not enough trading history for this window yet
+            </div>
+          )}
         </div>
       ),
+      intents: windowIntents,
+    });
+  } catch (error) {
+    log.error('Error fetching price history', { fid, error });
+
+    return c.res({
+      image: <ErrorScreen error={error} message="Error fetching price history" />,
       intents: [
-        <Button action="/yourfantoken">Check Fan Token</Button>
+        <Button action="/">Home</Button>,
+        ...retryIntents(error, '/yourfantoken/chart', c.buttonValue),
       ]
     });
-  } catch (error) {
-    console.error('Error fetching profile data:', error);
-    
+  }
+});
+
+function ComparisonColumn({ token }: { token: TokenComparison }) {
+  const rows: [string, string, string?][] = [
+    ['Price', token.currentPrice !== null ? `${formatAmount(token.currentPrice)} MOXIE` : 'N/A'],
+    ['Holders', token.holders ?? 'N/A'],
+    ['Powerboost', formatAmount(token.powerboost)],
+    [
+      '7d Change',
+      formatPercent(token.weeklyChangePercent),
+      token.weeklyChangePercent !== null ? pnlColor(token.weeklyChangePercent) : undefined,
+    ],
+  ];
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      width: '500px',
+      backgroundColor: 'rgba(255, 255, 255, 0.8)',
+      borderRadius: '15px',
+      padding: '20px',
+      boxShadow: '0 4px 8px rgba(0, 0, 0, 0.1)',
+    }}>
+      <div style={{ display: 'flex', marginBottom: '10px' }}>
+        <ProfileAvatar imageUrl={token.imageUrl} size={110} placeholder="" />
+      </div>
+      <div style={{ display: 'flex', fontSize: '36px', fontWeight: 'bold', marginBottom: '10px' }}>{token.name}</div>
+      {token.hasToken ? rows.map(([label, value, color]) => (
+        <div style={{ display: 'flex', justifyContent: 'space-between', width: '100%', fontSize: '28px', padding: '6px 0' }}>
+          <div style={{ display: 'flex' }}>{label}</div>
+          <div style={{ display: 'flex', color: color || '#000000' }}>{value}</div>
+        </div>
+      )) : (
+        <div style={{ display: 'flex', fontSize: '28px', padding: '6px 0' }}>No fan token yet</div>
+      )}
+    </div>
+  );
+}
+
+app.frame('/compare', async (c) => {
+  const { fid } = c.frameData ?? {};
+  const inputText = c.inputText?.trim() || '';
+
+  if (!fid) {
+    log.warn('No FID found in frameData');
+    return c.res({
+      image: <ErrorScreen message="Error: No FID" />,
+      intents: [
+        <Button action="/">Back</Button>
+      ]
+    });
+  }
+
+  const compareIntents = [
+    <TextInput placeholder="Compare with (dwr) or two users (dwr vs v)" />,
+    <Button action="/yourfantoken">Back</Button>,
+    <Button action="/compare" value="compare">Compare</Button>,
+  ];
+
+  const prompt = (message: string, detail: string) => c.res({
+    image: (
+      <MessageScreen title={message} message={detail} />
+    ),
+    intents: compareIntents,
+  });
+
+  const inputs = parseCompareInput(inputText);
+  if (c.buttonValue !== 'compare' || inputs.length === 0) {
+    return prompt('Compare Fan Tokens', 'Enter one user to compare with the token you are viewing, or two users separated by "vs"');
+  }
+
+  const budget = createLatencyBudget();
+
+  try {
+    // With one user entered, the other side is the token being viewed (your own unless you looked someone up)
+    const viewedFid = c.previousState.lookupFid ?? fid.toString();
+    const resolved = await budget.required(Promise.all(inputs.map(input => resolveFidFromInput(input))));
+    const missing = inputs.filter((_, i) => !resolved[i]);
+
+    if (missing.length > 0) {
+      return prompt('User not found', `No Farcaster account matches "${missing.join('", "')}"`);
+    }
+
+    const fids = (resolved.length === 1 ? [viewedFid, ...resolved] : resolved) as string[];
+    log.info('Comparing fan tokens', { fids });
+
+    const [left, right] = await Promise.all(fids.map(targetFid => getTokenComparison(targetFid, budget)));
+
     return c.res({
       image: (
-        <div style={commonStyle}>
-          <h1 style={{ fontSize: '36px', color: '#ffffff', textAlign: 'center' }}>Error fetching profile data. Please try again.</h1>
+        <div style={{
+          display: 'flex',
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          width: '1200px',
+          height: '628px',
+          ...getBackgroundStyle(DEFAULT_THEME.tokenBackground),
+          color: '#000000',
+          padding: '40px',
+          boxSizing: 'border-box',
+        }}>
+          <ComparisonColumn token={left} />
+          <div style={{ display: 'flex', fontSize: '48px', fontWeight: 'bold', color: '#ffffff', textShadow: '0 0 10px rgba(128, 0, 128, 0.8)' }}>
+            vs
+          </div>
+          <ComparisonColumn token={right} />
         </div>
       ),
+      intents: compareIntents,
+    });
+  } catch (error) {
+    log.error('Error comparing fan tokens', { fid, error });
+    return c.res({
+      image: <ErrorScreen error={error} message="Error comparing fan tokens" />,
       intents: [
         <Button action="/">Home</Button>
       ]
@@ -886,438 +885,1261 @@ app.frame('/share', async (c) => {
   }
 });
 
-app.frame('/owned-tokens', async (c) => {
-  console.log('Entering /owned-tokens frame');
-  const { fid } = c.frameData || {};
-  const currentIndex = Math.max(0, parseInt(c.buttonValue || '0'));
+app.frame('/holders', async (c) => {
+  const { fid } = c.frameData ?? {};
+  // A malformed value starts from the first page; one past the end shows the last
+  const currentPage = Math.max(0, parseInt(c.buttonValue || '0', 10) || 0);
+  const pageSize = 5;
 
-  console.log(`FID: ${fid}, Current Index: ${currentIndex}`);
+  log.debug('Frame request', { fid, currentPage });
 
   if (!fid) {
-    console.error('No FID found in frameData');
+    log.warn('No FID found in frameData');
     return c.res({
-      image: (
-        <div style={commonStyle}>
-          <div style={{ fontSize: '48px', color: '#ffffff', textAlign: 'center' }}>Error: No FID</div>
-        </div>
-      ),
+      image: <ErrorScreen message="Error: No FID" />,
       intents: [
         <Button action="/">Back</Button>
       ]
     });
   }
 
-  try {
-    const userAddresses = await getFarcasterAddressesFromFID(fid.toString());
-    console.log('User addresses:', userAddresses);
+  const budget = createLatencyBudget();
 
-    // Fetch vesting contract address
-    const vestingContractAddress = await getVestingContractAddress(userAddresses);
-    console.log('Vesting contract address:', vestingContractAddress);
+  try {
+    const targetFid = c.previousState.lookupFid ?? fid.toString();
+    const tokenInfo = await budget.required(getFanTokenInfo(targetFid));
+    const subjectToken = tokenInfo?.subjectTokens[0];
 
-    // Combine user addresses and vesting contract address
-    const allAddresses = [...userAddresses];
-    if (vestingContractAddress) {
-      allAddresses.push(vestingContractAddress);
+    if (!subjectToken || subjectToken.portfolio.length === 0) {
+      return c.res({
+        image: <ErrorScreen message="No holders found for this fan token" />,
+        intents: [
+          <Button action="/yourfantoken">Back</Button>
+        ]
+      });
     }
 
-    // Fetch tokens for all addresses
-    const allOwnedTokens = await getOwnedFanTokens(allAddresses) || [];
+    // The holder count is a lower bound when capped, so only then can the
+    // leaderboard run past it, up to the subgraph's skip limit
+    const totalPages = Math.ceil(subjectToken.portfolio.length / pageSize);
+    const lastPage = subjectToken.portfolioTruncated
+      ? Math.floor(TOP_HOLDERS_MAX_SKIP / pageSize)
+      : totalPages - 1;
+    const page = Math.min(currentPage, lastPage);
 
-    console.log(`Total owned tokens: ${allOwnedTokens.length}`);
-    console.log('First few tokens:', JSON.stringify(allOwnedTokens.slice(0, 3), null, 2));
+    // Each tap loads just its page, plus one holder to tell whether another follows
+    const rankedHolders = await budget.required(getTopFanTokenHolders(subjectToken.id, pageSize + 1, page * pageSize));
+    const pageHolders = rankedHolders.slice(0, pageSize);
+    const hasNextPage = rankedHolders.length > pageSize && page < lastPage;
 
-    if (allOwnedTokens.length === 0) {
-      console.warn(`No fan tokens found for FID ${fid}`);
+    if (pageHolders.length === 0) {
       return c.res({
-        image: (
-          <div style={{
-            width: '1200px',
-            height: '628px',
-            backgroundImage: 'url(https://bafybeicqe4rjtk6sgcgkhncf3tiquxkjbpbvafn3ixtk5qjnjszumzjv3i.ipfs.w3s.link/Group%2061%20(6).png)',
-            backgroundSize: 'cover',
-            backgroundPosition: 'center',
-            display: 'flex',
-            flexDirection: 'column',
-            alignItems: 'center',
-            justifyContent: 'center',
-          }}>
-            <h1 style={{
-              fontSize: '48px',
-              color: '#ffffff',
-              textAlign: 'center',
-              textShadow: '2px 2px 4px rgba(0,0,0,0.5)',
-            }}>
-            </h1>
-          </div>
-        ),
+        image: <ErrorScreen message="No more holders" hint="This fan token has fewer holders than that." />,
         intents: [
-          <Button action="/">Back</Button>,
-          <Button action="/yourfantoken">Your Fan Token</Button>
+          <Button action="/holders" value="0">First Page</Button>,
+          <Button action="/yourfantoken">Back</Button>,
         ]
       });
     }
 
-    console.log(`Selecting token at index ${currentIndex} out of ${allOwnedTokens.length} tokens`);
-    const token = allOwnedTokens[currentIndex];
-    console.log('Selected token:', JSON.stringify(token, null, 2));
-
-    let tokenProfileInfo = null;
-    let tokenFid = '';
-
-    if (token.subjectToken.symbol.startsWith('fid:')) {
-      tokenFid = token.subjectToken.symbol.split(':')[1];
-      try {
-        tokenProfileInfo = await getProfileInfo(tokenFid);
-        console.log('Token profile info:', JSON.stringify(tokenProfileInfo, null, 2));
-      } catch (error) {
-        console.error(`Error fetching profile for FID ${tokenFid}:`, error);
-      }
-    }
-
-    const formatBalance = (balance: string, decimals: number = 18): string => {
-      const balanceNum = parseFloat(balance) / Math.pow(10, decimals);
-      if (isNaN(balanceNum)) return 'N/A';
-      if (balanceNum >= 1e6) return (balanceNum / 1e6).toFixed(2) + 'M';
-      if (balanceNum >= 1e3) return (balanceNum / 1e3).toFixed(2) + 'K';
-      if (balanceNum < 0.01) return balanceNum.toExponential(2);
-      return balanceNum.toFixed(2);
-    };
-
-    const formatNumber = (value: string | number | null | undefined): string => {
-      if (value === null || value === undefined) return 'N/A';
-      const num = typeof value === 'string' ? parseFloat(value) : value;
-      if (isNaN(num)) return 'N/A';
-      
-      if (num >= 1e9) return (num / 1e9).toFixed(2) + 'B';
-      if (num >= 1e6) return (num / 1e6).toFixed(2) + 'M';
-      if (num >= 1e3) return (num / 1e3).toFixed(2) + 'K';
-      if (num < 0.01) return num.toExponential(2);
-      return num.toFixed(2);
+    // Holders are wallet addresses, so resolve each one's Farcaster profile by
+    // address; a holder whose profile misses the deadline is shown by address
+    const profiles = await Promise.all(
+      pageHolders.map(holder => budget.optional(getProfileInfoForIdentity(holder.user.id), null))
+    );
+
+    // Basis points keep two decimals of the percentage without going through floats
+    const formatShareOfSupply = (balance: string): string => {
+      if (!subjectToken.totalSupply || BigInt(subjectToken.totalSupply) === 0n) return 'N/A';
+      const basisPoints = (BigInt(balance) * 10000n) / BigInt(subjectToken.totalSupply);
+      return formatPercent(Number(basisPoints) / 100, { fractionDigits: 2, signed: false });
     };
 
-    const tokenBalance = formatBalance(token.balance, token.subjectToken.decimals || 18);
-    const buyVolume = formatNumber(parseFloat(token.buyVolume) / 1e18); // Convert to MOXIE first
-    const currentPrice = formatNumber(token.subjectToken.currentPriceInMoxie);
-
-    console.log('Formatted data:', { tokenBalance, buyVolume, currentPrice });
-
-    const tokenOwnerName = tokenProfileInfo?.farcasterSocial?.profileDisplayName || token.subjectToken.name || 'Unknown';
-
-    const shareText = `I am the proud owner of ${tokenBalance} of ${tokenOwnerName}'s Fan Tokens powered by @moxie.eth 👏. Check which Fan Tokens you own 👀. Frame by @goldie`;
-    const timestamp = Date.now();
-    const shareUrl = `https://fantokens-kappa.vercel.app/api/share-owned?fid=${fid}&tokenIndex=${currentIndex}&timestamp=${timestamp}`;
-    const farcasterShareURL = `https://warpcast.com/~/compose?text=${encodeURIComponent(shareText)}&embeds[]=${encodeURIComponent(shareUrl)}`;
-
-    console.log('Share URL:', shareUrl);
-    console.log('Farcaster Share URL:', farcasterShareURL);
-
     return c.res({
       image: (
         <div style={{
-          display: 'flex', 
+          display: 'flex',
           flexDirection: 'column',
           alignItems: 'center',
-          justifyContent: 'center',
-          width: '1200px', 
-          height: '628px', 
-          backgroundImage: 'url(https://bafybeiata3diat4mmcnz54vbqfrs5hqrbankpp5ynvhbtglrxakj55hx6y.ipfs.w3s.link/Frame%2064%20(8).png)',
-          backgroundSize: 'cover',
-          backgroundPosition: 'center',
-          color: 'white',
-          padding: '40px',
+          width: '1200px',
+          height: '628px',
+          ...getBackgroundStyle(DEFAULT_THEME.holdingBackground),
+          padding: '30px 40px',
           boxSizing: 'border-box',
           position: 'relative',
         }}>
           <div style={{
             display: 'flex',
-            position: 'absolute',
-            bottom: '20px',
-            right: '20px',
-            fontSize: '24px',
+            fontSize: '44px',
             color: '#000000',
-            backgroundColor: 'rgba(255, 255, 255, 0.8)',
-            padding: '10px',
-            borderRadius: '10px',
-            fontWeight: 'bold',
-          }}>
-            {currentIndex + 1} of {allOwnedTokens.length}
-          </div>
-          <div style={{
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center',
-            width: '130px',
-            height: '130px',
-            borderRadius: '50%',
-            overflow: 'hidden',
-            backgroundColor: '#FFA500',
-            marginBottom: '20px',
-            boxShadow: '0 0 20px 10px rgba(128, 0, 128, 0.5)',
-          }}>
-            {tokenProfileInfo?.farcasterSocial?.profileImage ? (
-              <img 
-                src={tokenProfileInfo.farcasterSocial.profileImage}
-                alt="Token Profile" 
-                style={{ width: '100%', height: '100%', objectFit: 'cover' }}
-              />
-            ) : (
-              <div style={{ 
-                display: 'flex', 
-                alignItems: 'center', 
-                justifyContent: 'center', 
-                width: '100%', 
-                height: '100%', 
-                backgroundColor: '#9054FF',
-                color: '#ffffff',
-                fontSize: '24px'
-              }}>
-                Channel
-              </div>
-            )}
-          </div>
-          <div style={{
-            display: 'flex',
-            fontSize: '48px', 
-            color: '#000000', 
             marginBottom: '20px',
-            textAlign: 'center',
             textShadow: '0 0 10px rgba(128, 0, 128, 0.5)'
           }}>
-            {tokenOwnerName}
-          </div>
-          <div style={{
-            display: 'flex',
-            flexDirection: 'row',
-            justifyContent: 'center',
-            alignItems: 'center',
-            width: '100%',
-          }}>
-            <TextBox label="Balance" value={`${tokenBalance} tokens`} />
-            <TextBox label="Buy Volume" value={`${buyVolume} MOXIE`} />
-            <TextBox label="Current Price" value={`${currentPrice} MOXIE`} />
+            Top Holders of {subjectToken.name}
           </div>
+          {pageHolders.map((holder, i) => {
+            const profile = profiles[i]?.farcasterSocial;
+            return (
+              <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                width: '1000px',
+                height: '80px',
+                backgroundColor: 'rgba(255, 255, 255, 0.8)',
+                borderRadius: '10px',
+                padding: '0 20px',
+                marginBottom: '10px',
+                fontSize: '28px',
+                color: '#000000',
+              }}>
+                <div style={{ display: 'flex', width: '60px', fontWeight: 'bold' }}>#{page * pageSize + i + 1}</div>
+                <div style={{ display: 'flex', marginRight: '20px' }}>
+                  <ProfileAvatar imageUrl={profile?.profileImage} size={56} placeholder="" />
+                </div>
+                <div style={{ display: 'flex', flexGrow: 1 }}>
+                  {profile?.profileDisplayName || shortenAddress(holder.user.id)}
+                </div>
+                <div style={{ display: 'flex', width: '220px', justifyContent: 'flex-end' }}>
+                  {formatTokenAmount(holder.balance, subjectToken.decimals || MOXIE_DECIMALS)}
+                </div>
+                <div style={{ display: 'flex', width: '160px', justifyContent: 'flex-end', fontWeight: 'bold' }}>
+                  {formatShareOfSupply(holder.balance)}
+                </div>
+              </div>
+            );
+          })}
+          <PageIndicator current={page + 1} total={subjectToken.portfolioTruncated ? `${totalPages}+` : totalPages} />
         </div>
       ),
       intents: [
-        <Button action="/">Home</Button>,
-        ...(currentIndex < allOwnedTokens.length - 1 ? [<Button action="/owned-tokens" value={(currentIndex + 1).toString()}>Next</Button>] : []),
-        ...(currentIndex > 0 ? [<Button action="/owned-tokens" value={(currentIndex - 1).toString()}>Previous</Button>] : []),
-        <Button.Link href={farcasterShareURL}>Share</Button.Link>,
+        <Button action="/yourfantoken">Back</Button>,
+        ...(hasNextPage ? [<Button action="/holders" value={(page + 1).toString()}>Next</Button>] : []),
+        ...(page > 0 ? [<Button action="/holders" value={(page - 1).toString()}>Previous</Button>] : []),
+        <Button action="/compare">Compare</Button>,
       ]
     });
   } catch (error) {
-    console.error('Error fetching fan token data:', error);
-    
-    let errorMessage: string;
-    if (error instanceof Error) {
-      errorMessage = error.message;
-      console.error('Error details:', error.stack);
-    } else if (typeof error === 'string') {
-      errorMessage = error;
-    } else {
-      errorMessage = 'An unknown error occurred';
-    }
+    log.error('Error fetching holders', { fid, error });
 
     return c.res({
-      image: (
-        <div style={commonStyle}>
-          <div style={{ fontSize: '36px', color: '#ffffff', textAlign: 'center' }}>
-            Error fetching fan tokens: {errorMessage}
-          </div>
-        </div>
-      ),
+      image: <ErrorScreen error={error} message="Error fetching holders" />,
       intents: [
-        <Button action="/">Home</Button>
+        <Button action="/">Home</Button>,
+        ...retryIntents(error, '/holders', c.buttonValue),
       ]
     });
   }
 });
-///
-
 
-app.frame('/share-owned', async (c) => {
-  console.log('Entering /share-owned frame');
-  const fid = c.req.query('fid');
-  const tokenIndex = Math.max(0, parseInt(c.req.query('tokenIndex') || '0'));
-  const timestamp = parseInt(c.req.query('timestamp') || '0');
+app.frame('/channel-token', async (c) => {
+  // Refresh carries the channel as cid:<id>; from home it comes from the text input
+  const channelInput = c.buttonValue?.startsWith('cid:') ? c.buttonValue : c.inputText || '';
+  const channelId = parseChannelInput(channelInput);
 
-  console.log(`Received FID: ${fid}, Token Index: ${tokenIndex}, Timestamp: ${timestamp}`);
+  log.debug('Frame request', { channelInput, channelId });
 
-  if (!fid) {
-    console.error('No FID provided');
+  if (!channelId) {
     return c.res({
       image: (
-        <div style={commonStyle}>
-          <h1 style={{ fontSize: '48px', color: '#ffffff', textAlign: 'center' }}>Error: No FID provided</h1>
-        </div>
+        <MessageScreen title="Enter a channel" message="Type /channel or cid:channel in the box, then press Channel" />
       ),
       intents: [
-        <Button action="/">Home</Button>
+        <Button action="/">Back</Button>
       ]
     });
   }
 
-  try {
-    const userAddresses = await getFarcasterAddressesFromFID(fid.toString());
-    console.log('User addresses:', userAddresses);
-
-    const vestingContractAddress = await getVestingContractAddress(userAddresses);
-    console.log('Vesting contract address:', vestingContractAddress);
+  const budget = createLatencyBudget();
 
-    const allAddresses = [...userAddresses];
-    if (vestingContractAddress) {
-      allAddresses.push(vestingContractAddress);
-    }
-
-    const allOwnedTokens = await getOwnedFanTokens(allAddresses) || [];
-
-    console.log(`Total owned tokens: ${allOwnedTokens.length}`);
-    console.log('First few tokens:', JSON.stringify(allOwnedTokens.slice(0, 3), null, 2));
+  try {
+    const [tokenInfo, channelInfo] = await Promise.all([
+      budget.required(getFanTokenInfoForSymbol(`cid:${channelId}`)),
+      budget.optional(getChannelInfo(channelId), null),
+    ]);
 
-    if (allOwnedTokens.length === 0 || tokenIndex >= allOwnedTokens.length) {
-      console.warn(`No fan tokens found or invalid token index for FID ${fid}`);
+    if (!tokenInfo || tokenInfo.subjectTokens.length === 0) {
       return c.res({
         image: (
-          <div style={commonStyle}>
-            <h1 style={{ fontSize: '48px', color: '#ffffff', textAlign: 'center' }}>No fan token found for this index</h1>
-          </div>
+          <MessageScreen title={`No fan token for /${channelId}`} message="This channel hasn't launched a fan token yet" />
         ),
         intents: [
-          <Button action="/">Home</Button>
+          <Button action="/">Back</Button>
         ]
       });
     }
 
-    console.log(`Selecting token at index ${tokenIndex} out of ${allOwnedTokens.length} tokens`);
-    const token = allOwnedTokens[tokenIndex];
-    console.log('Selected token:', JSON.stringify(token, null, 2));
-
-    let tokenProfileInfo = null;
-    let tokenFid = '';
-
-    if (token.subjectToken.symbol.startsWith('fid:')) {
-      tokenFid = token.subjectToken.symbol.split(':')[1];
-      try {
-        tokenProfileInfo = await getProfileInfo(tokenFid);
-        console.log('Token profile info:', JSON.stringify(tokenProfileInfo, null, 2));
-      } catch (error) {
-        console.error(`Error fetching profile for FID ${tokenFid}:`, error);
-      }
-    }
-
-    const formatBalance = (balance: string, decimals: number = 18): string => {
-      const balanceNum = parseFloat(balance) / Math.pow(10, decimals);
-      if (isNaN(balanceNum)) return 'N/A';
-      return balanceNum.toFixed(2);
-    };
-
-    const formatNumber = (value: string | number): string => {
-      const num = typeof value === 'string' ? parseFloat(value) : value;
-      if (isNaN(num)) return 'N/A';
-      
-      if (num >= 1e9) {
-        return (num / 1e9).toFixed(2) + 'B';
-      } else if (num >= 1e6) {
-        return (num / 1e6).toFixed(2) + 'M';
-      } else if (num >= 1e3) {
-        return (num / 1e3).toFixed(2) + 'K';
-      } else {
-        return num.toFixed(2);
-      }
-    };
-
-    console.log('Raw token data:', {
-      balance: token.balance,
-      buyVolume: token.buyVolume,
-      currentPrice: token.subjectToken.currentPriceInMoxie
-    });
-
-    const tokenBalance = formatBalance(token.balance, token.subjectToken.decimals || 18);
-    const buyVolumeInMoxie = parseFloat(token.buyVolume) / 1e18; // Convert wei to MOXIE
-    const buyVolume = formatNumber(buyVolumeInMoxie);
-    const currentPrice = formatNumber(parseFloat(token.subjectToken.currentPriceInMoxie));
+    const subjectToken = tokenInfo.subjectTokens[0];
+    const currentPrice = formatAmount(subjectToken.currentPriceInMoxie);
+    const holders = formatHolderCount(subjectToken);
+    const volume = formatTokenAmount(sumRawAmounts([subjectToken.buySideVolume, subjectToken.sellSideVolume]));
+    const followers = channelInfo ? formatCount(channelInfo.followerCount) : null;
 
-    console.log('Formatted data:', { tokenBalance, buyVolume, currentPrice });
-
-    const tokenOwnerName = tokenProfileInfo?.farcasterSocial?.profileDisplayName || token.subjectToken.name || 'Unknown';
 
     return c.res({
       image: (
         <div style={{
-          display: 'flex', 
+          display: 'flex',
           flexDirection: 'column',
           alignItems: 'center',
           justifyContent: 'center',
-          width: '1200px', 
-          height: '628px', 
-          backgroundImage: 'url(https://bafybeiata3diat4mmcnz54vbqfrs5hqrbankpp5ynvhbtglrxakj55hx6y.ipfs.w3s.link/Frame%2064%20(8).png)',
-          backgroundSize: 'cover',
-          backgroundPosition: 'center',
-          color: 'white',
-          padding: '40px',
+          width: '1200px',
+          height: '628px',
+          ...getBackgroundStyle(DEFAULT_THEME.tokenBackground),
+          color: '#000000',
+          padding: '20px',
           boxSizing: 'border-box',
         }}>
+          <TokenHeader title={`/${channelId}`} imageUrl={channelInfo?.imageUrl} avatarSize={160} placeholder="Channel" />
+          {followers && (
+            <div style={{ display: 'flex', fontSize: '28px', color: '#ffffff', marginBottom: '10px' }}>
+              {channelInfo?.name} · {followers} followers
+            </div>
+          )}
           <div style={{
             display: 'flex',
-            flexDirection: 'column',
-            alignItems: 'center',
-            justifyContent: 'center',
-            width: '130px',
-            height: '130px',
-            borderRadius: '50%',
-            overflow: 'hidden',
-            backgroundColor: '#FFA500',
-            marginBottom: '20px',
-            boxShadow: '0 0 20px 10px rgba(128, 0, 128, 0.5)',
-          }}>
-            {tokenProfileInfo && tokenProfileInfo.farcasterSocial && tokenProfileInfo.farcasterSocial.profileImage ? (
-              <img 
-                src={tokenProfileInfo.farcasterSocial.profileImage}
-                alt="Token Profile" 
-                style={{ width: '100%', height: '100%', objectFit: 'cover' }}
-              />
-            ) : (
-              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', width: '100%', height: '100%', backgroundColor: '#9054FF' }}>
-                <span style={{ fontSize: '24px', color: '#ffffff' }}>Channel</span>
-              </div>
-            )}
-          </div>
-          <h1 style={{ 
-            fontSize: '48px', 
-            color: '#000000', 
-            marginBottom: '20px', 
-            textAlign: 'center',
-            textShadow: '0 0 10px rgba(128, 0, 128, 0.5)'
-          }}>
-            {tokenOwnerName}
-          </h1>
-          <div style={{
-            display: 'flex',
-            flexWrap: 'wrap',
             justifyContent: 'center',
             alignItems: 'center',
             width: '100%',
+            maxWidth: '1000px',
           }}>
-            <TextBox label="Balance" value={`${tokenBalance} tokens`} />
-            <TextBox label="Buy Volume" value={`${buyVolume} MOXIE`} />
-            <TextBox label="Current Price" value={`${currentPrice} MOXIE`} />
+            <StatCard label="Current Price" value={`${currentPrice} MOXIE`} />
+            <StatCard label="Holders" value={holders} />
+            <StatCard label="Volume" value={`${volume} MOXIE`} />
           </div>
         </div>
       ),
       intents: [
-        <Button action="/owned-tokens">Check Your Owned Tokens</Button>
-      ]
+        <Button action="/">Back</Button>,
+        <Button action="/channel-token" value={`cid:${channelId}`}>Refresh</Button>,
+      ],
     });
   } catch (error) {
-    console.error('Error fetching fan token data:', error);
-    
+    log.error('Error fetching channel token data', { channelId, error });
+
     return c.res({
-      image: (
-        <div style={commonStyle}>
-          <h1 style={{ fontSize: '36px', color: '#ffffff', textAlign: 'center' }}>Error fetching fan token data. Please try again.</h1>
-        </div>
-      ),
+      image: <ErrorScreen error={error} message="Error fetching channel token data" />,
+      intents: [
+        <Button action="/">Home</Button>,
+        ...retryIntents(error, '/channel-token', c.buttonValue),
+      ]
+    });
+  }
+});
+
+app.frame('/share', async (c) => {
+  // Values are only taken from a signed share payload; anything else is re-fetched
+  const shareState = verifyShareState<TokenShareState>(c.req.query('s'));
+  const fid = shareState?.fid || c.req.query('fid') || c.frameData?.fid?.toString();
+  const currency = c.req.query('currency');
+
+  log.debug('Frame request', { fid, signedAt: shareState?.ts ?? null });
+
+  if (!fid) {
+    log.warn('No FID found in frameData');
+    return c.res({
+      image: <ErrorScreen message="Error: No FID provided" />,
+      intents: [
+        <Button action="/">Home</Button>
+      ]
+    });
+  }
+
+  const budget = createLatencyBudget();
+
+  try {
+    // Started first so they load alongside the live data when there is no payload
+    const profileRequest = budget.optional(getProfileInfo(fid), null);
+    const themeRequest = shareState?.theme && isThemeName(shareState.theme)
+      ? Promise.resolve(shareState.theme)
+      : budget.optional(getThemeNameForFid(fid), DEFAULT_THEME_NAME);
+    const displayRequest = getMoxieDisplay(isDisplayCurrency(currency) ? currency : 'MOXIE', budget);
+
+    let currentPrice: string;
+    let priceInMoxie: string | undefined;
+    let powerboost: string;
+    let holders: string;
+
+    if (shareState) {
+      ({ currentPrice, priceInMoxie, powerboost, holders } = shareState);
+    } else {
+      log.info('No valid share state, fetching live data', { fid });
+      const [tokenInfo, powerboostScore] = await Promise.all([
+        budget.required(getFanTokenInfo(fid)),
+        budget.optional(getPowerboostScore(fid), null),
+      ]);
+
+      priceInMoxie = tokenInfo?.subjectTokens[0]?.currentPriceInMoxie;
+      currentPrice = formatAmount(priceInMoxie);
+      holders = tokenInfo?.subjectTokens[0] ? formatHolderCount(tokenInfo.subjectTokens[0]) : 'N/A';
+      powerboost = formatAmount(powerboostScore);
+    }
+
+    const [profileInfo, themeName, display] = await Promise.all([profileRequest, themeRequest, displayRequest]);
+    // Payloads signed before USD existed only carry the formatted MOXIE price
+    const displayPrice = priceInMoxie !== undefined ? formatMoxieValue(priceInMoxie, display) : `${currentPrice} MOXIE`;
+    // Without a payload it's unknown who shared the card, so it names the owner
+    const ownerName = shareState
+      ? shareState.ownerName
+      : profileInfo?.farcasterSocial?.profileDisplayName || `FID ${fid}`;
+    const title = ownerName ? `${ownerName}'s Fan Token` : 'My Fan Token';
+
+    return c.res({
+      image: (
+        <FanTokenCard
+          title={title}
+          imageUrl={profileInfo?.farcasterSocial?.profileImage}
+          currentPrice={displayPrice}
+          powerboost={powerboost}
+          holders={holders}
+          theme={THEMES[themeName]}
+        />
+      ),
+      intents: [
+        <Button action="/yourfantoken">Check Fan Token</Button>
+      ]
+    });
+  } catch (error) {
+    log.error('Error fetching profile data', { fid, error });
+    
+    return c.res({
+      image: <ErrorScreen error={error} message="Error fetching profile data" />,
+      intents: [
+        <Button action="/">Home</Button>
+      ]
+    });
+  }
+});
+
+app.frame('/owned-tokens', async (c) => {
+  const { fid } = c.frameData || {};
+  const requestedIndex = Math.max(0, parseInt(c.buttonValue || '0') || 0);
+
+  log.debug('Frame request', { fid, requestedIndex });
+
+  if (!fid) {
+    log.warn('No FID found in frameData');
+    return c.res({
+      image: <ErrorScreen message="Error: No FID" />,
+      intents: [
+        <Button action="/">Back</Button>
+      ]
+    });
+  }
+
+  const budget = createLatencyBudget();
+
+  try {
+    const { holdingsView, currency } = c.previousState;
+    const wallets = await budget.required(getHoldingWalletsForFID(fid.toString()));
+    const allOwnedTokens = await budget.required(getOwnedTokensInView(wallets.map(wallet => wallet.address), holdingsView));
+    const isFiltered = holdingsView.type !== 'all' || holdingsView.minValue > 0 || Boolean(holdingsView.wallet);
+
+    log.debug('Owned tokens in view', { fid, count: allOwnedTokens.length, holdingsView });
+
+    if (isFiltered && allOwnedTokens.length === 0) {
+      return c.res({
+        image: <ErrorScreen message="No holdings match this view" hint={describeHoldingsView(holdingsView, wallets)} />,
+        intents: [
+          <Button action="/">Home</Button>,
+          <Button action="/owned-tokens/view">Change View</Button>,
+          <Button action="/owned-tokens/wallets">Wallets</Button>
+        ]
+      });
+    }
+
+    if (allOwnedTokens.length === 0) {
+      log.info('No fan tokens found', { fid });
+      return c.res({
+        image: <CardBackground background={NO_OWNED_TOKENS_IMAGE} />,
+        intents: [
+          <Button action="/">Back</Button>,
+          <Button action="/yourfantoken" value="self">Your Fan Token</Button>
+        ]
+      });
+    }
+
+    // A narrower view may leave the index past the end
+    const currentIndex = Math.min(requestedIndex, allOwnedTokens.length - 1);
+    const token = allOwnedTokens[currentIndex];
+
+    // The token owner's profile or channel, and the trades behind the P&L, only
+    // decorate the card, so they load together and may fall back to placeholders
+    const tokenFid = token.subjectToken.symbol.startsWith('fid:') ? token.subjectToken.symbol.split(':')[1] : '';
+    const channelId = getChannelIdFromSymbol(token.subjectToken.symbol);
+    const tradeHistoryLimit = 100;
+    const [tokenProfileInfo, channelInfo, trades, display] = await Promise.all([
+      tokenFid ? budget.optional(getProfileInfo(tokenFid), null) : null,
+      channelId ? budget.optional(getChannelInfo(channelId), null) : null,
+      token.address ? budget.optional(getTokenTrades([token.address], token.subjectToken.symbol, tradeHistoryLimit), null) : [],
+      getMoxieDisplay(currency, budget),
+    ]);
+
+    const tokenBalance = formatTokenAmount(token.balance, token.subjectToken.decimals || MOXIE_DECIMALS);
+    const buyVolume = formatMoxieValue(toDecimalString(token.buyVolume), display);
+    const currentPrice = formatMoxieValue(token.subjectToken.currentPriceInMoxie, display);
+
+    // A full page of orders may be missing older buys, so fall back to the
+    // volume-based estimate rather than report a skewed entry price; the
+    // same estimate stands in when the trades didn't load
+    const pnl = getHoldingPnl(token, trades && trades.length < tradeHistoryLimit ? trades : null);
+    const pnlText = `${formatMoxieValue(pnl.unrealisedPnl, display, { signed: true, unit: false })} (${formatPercent(pnl.unrealisedPnlPercent)})`;
+
+    log.debug('Holding P&L', { symbol: token.subjectToken.symbol, ...pnl });
+
+    const tokenOwnerName = tokenProfileInfo?.farcasterSocial?.profileDisplayName || (channelInfo && `/${channelInfo.channelId}`) || token.subjectToken.name || 'Unknown';
+    const tokenImageUrl = tokenProfileInfo?.farcasterSocial?.profileImage || channelInfo?.imageUrl;
+
+    const shareText = `I am the proud owner of ${tokenBalance} of ${tokenOwnerName}'s Fan Tokens powered by @moxie.eth 👏. Check which Fan Tokens you own 👀. Frame by @goldie`;
+    const shareState = signShareState<OwnedTokenShareState>({ fid: fid.toString(), holding: token });
+    // The viewer's carousel order depends on their view, so the fallback finds the holding by token and wallet
+    const shareUrl = `https://fantokens-kappa.vercel.app/api/share-owned?fid=${fid}&symbol=${encodeURIComponent(token.subjectToken.symbol)}&wallet=${token.address ?? ''}&currency=${currency}&s=${shareState}`;
+    const farcasterShareURL = `https://warpcast.com/~/compose?text=${encodeURIComponent(shareText)}&embeds[]=${encodeURIComponent(shareUrl)}`;
+
+
+    return c.res({
+      image: (
+        <CardBackground background={DEFAULT_THEME.holdingBackground} padding="40px">
+          <PageIndicator current={currentIndex + 1} total={allOwnedTokens.length} />
+          <CornerBadge position="top-left">{describeHoldingsView(holdingsView, wallets)}</CornerBadge>
+          {token.address && (
+            <CornerBadge position="bottom-left">
+              Held in {getWalletLabel(wallets, token.address)} · {shortenAddress(token.address)}
+            </CornerBadge>
+          )}
+          <TokenHeader
+            title={tokenOwnerName}
+            imageUrl={tokenImageUrl}
+            avatarSize={130}
+            placeholder="Channel"
+            color={DEFAULT_THEME.holdingTitleColor}
+          />
+          <StatRow>
+            <StatCard label="Balance" value={`${tokenBalance} tokens`} />
+            <StatCard label="Buy Volume" value={buyVolume} />
+            <StatCard label="Current Price" value={currentPrice} />
+          </StatRow>
+          <StatRow>
+            <StatCard label="Avg Entry" value={formatMoxieValue(pnl.averageEntryPrice, display)} />
+            <StatCard label="Value" value={formatMoxieValue(pnl.currentValue, display)} />
+            <StatCard label="Unrealised P&L" value={pnlText} valueColor={pnlColor(pnl.unrealisedPnl)} />
+          </StatRow>
+        </CardBackground>
+      ),
+      intents: [
+        <Button action="/owned-tokens/menu" value={currentIndex.toString()}>Menu</Button>,
+        ...(currentIndex < allOwnedTokens.length - 1 ? [<Button action="/owned-tokens" value={(currentIndex + 1).toString()}>Next</Button>] : []),
+        ...(currentIndex > 0 ? [<Button action="/owned-tokens" value={(currentIndex - 1).toString()}>Previous</Button>] : []),
+        <Button.Link href={farcasterShareURL}>Share</Button.Link>,
+      ]
+    });
+  } catch (error) {
+    log.error('Error fetching fan token data', { fid, error });
+
+    return c.res({
+      image: <ErrorScreen error={error} message="Error fetching fan tokens" />,
+      intents: [
+        <Button action="/">Home</Button>,
+        ...retryIntents(error, '/owned-tokens', c.buttonValue),
+      ]
+    });
+  }
+});
+
+app.frame('/owned-tokens/menu', async (c) => {
+  const { fid } = c.frameData || {};
+  // Button values: "<index>" opens the menu, "<index>:settings" the display
+  // settings and "<index>:currency" toggles the currency from the settings
+  const [indexValue, page] = (c.buttonValue || '0').split(':');
+  const currentIndex = Math.max(0, parseInt(indexValue) || 0);
+  const showSettings = page === 'settings' || page === 'currency';
+  const { holdingsView, currency } = c.deriveState(previousState => {
+    if (page === 'currency') {
+      previousState.currency = otherCurrency(previousState.currency);
+    }
+  });
+  // Only needed to name the selected wallet
+  const wallets = fid && holdingsView.wallet ? await createLatencyBudget().optional(getHoldingWalletsForFID(fid.toString()), []) : [];
+
+  return c.res({
+    image: (
+      <MessageScreen title={showSettings ? 'Display Settings' : 'Your Fan Tokens'} message={`${describeHoldingsView(holdingsView, wallets)} · Prices in ${currency}`} />
+    ),
+    intents: showSettings
+      ? [
+        <Button action="/owned-tokens/menu" value={currentIndex.toString()}>Back</Button>,
+        <Button action="/owned-tokens/view">View</Button>,
+        <Button action="/owned-tokens/wallets">Wallets</Button>,
+        <Button action="/owned-tokens/menu" value={`${currentIndex}:currency`}>{currencyToggleLabel(currency)}</Button>,
+      ]
+      : [
+        <Button action="/owned-tokens" value={currentIndex.toString()}>Back</Button>,
+        <Button action="/owned-tokens/alert" value={currentIndex.toString()}>Alert</Button>,
+        <Button action="/trades" value={currentIndex.toString()}>Trades</Button>,
+        <Button action="/owned-tokens/menu" value={`${currentIndex}:settings`}>Settings</Button>,
+      ],
+  });
+});
+
+app.frame('/owned-tokens/view', async (c) => {
+  const { fid } = c.frameData || {};
+  const sortOptions: HoldingSort[] = ['value', 'balance', 'buyVolume', 'price', 'recent'];
+  const typeOptions: HoldingTypeFilter[] = ['all', 'users', 'channels'];
+  let error = '';
+
+  const state = c.deriveState(previousState => {
+    const view = previousState.holdingsView;
+    if (c.buttonValue === 'sort') {
+      view.sort = nextOption(sortOptions, view.sort);
+    } else if (c.buttonValue === 'type') {
+      view.type = nextOption(typeOptions, view.type);
+    } else if (c.buttonValue === 'dust') {
+      // An empty box shows dust again
+      const minValue = parseFloat(c.inputText || '0');
+      if (isNaN(minValue) || minValue < 0) {
+        error = 'Enter a MOXIE amount, or leave empty to show everything';
+      } else {
+        view.minValue = minValue;
+      }
+    }
+  });
+  const view = state.holdingsView;
+  const wallets = fid && view.wallet ? await createLatencyBudget().optional(getHoldingWalletsForFID(fid.toString()), []) : [];
+
+  return c.res({
+    image: (
+      <MessageScreen title={describeHoldingsView(view, wallets)} message={error || 'Tap Sort or Show to cycle options, or enter a MOXIE amount to hide dust'} messageColor={error ? '#FF4D4D' : undefined} />
+    ),
+    intents: [
+      <TextInput placeholder="Hide dust below (MOXIE)" />,
+      <Button action="/owned-tokens" value="0">Done</Button>,
+      <Button action="/owned-tokens/view" value="sort">{`Sort: ${HOLDING_SORT_LABELS[view.sort]}`}</Button>,
+      <Button action="/owned-tokens/view" value="type">{`Show: ${HOLDING_TYPE_LABELS[view.type]}`}</Button>,
+      <Button action="/owned-tokens/view" value="dust">Set Dust</Button>,
+    ],
+  });
+});
+
+app.frame('/owned-tokens/wallets', async (c) => {
+  const { fid } = c.frameData || {};
+
+  if (!fid) {
+    log.warn('No FID found in frameData');
+    return c.res({
+      image: <ErrorScreen message="Error: No FID" />,
+      intents: [
+        <Button action="/">Back</Button>
+      ]
+    });
+  }
+
+  const budget = createLatencyBudget();
+
+  try {
+    const wallets = await budget.required(getHoldingWalletsForFID(fid.toString()));
+    const holdings = await budget.required(getOwnedFanTokens(wallets.map(wallet => wallet.address))) || [];
+    const breakdown = summarizeWallets(holdings, wallets);
+
+    // "wallet" cycles All -> custody -> verified... -> vesting -> All
+    const state = c.deriveState(previousState => {
+      if (c.buttonValue === 'wallet') {
+        const options = [null, ...wallets.map(wallet => wallet.address)];
+        previousState.holdingsView.wallet = nextOption(options, previousState.holdingsView.wallet);
+      }
+    });
+    const selected = state.holdingsView.wallet;
+
+    return c.res({
+      image: (
+        <CardBackground background={DEFAULT_THEME.screenBackground} padding="40px">
+          <div style={{ display: 'flex', fontSize: '48px', color: DEFAULT_THEME.textColor, marginBottom: '20px' }}>
+            Holdings by Wallet
+          </div>
+          {breakdown.map(({ wallet, holdingsCount, totalValue }) => (
+            <div style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              width: '1000px',
+              fontSize: '30px',
+              padding: '10px 20px',
+              marginBottom: '8px',
+              borderRadius: '10px',
+              color: '#ffffff',
+              backgroundColor: wallet.address === selected ? '#9B6DF1' : 'rgba(255, 255, 255, 0.1)',
+            }}>
+              <div style={{ display: 'flex', width: '220px' }}>{getWalletLabel(wallets, wallet.address)}</div>
+              <div style={{ display: 'flex', width: '240px' }}>{shortenAddress(wallet.address)}</div>
+              <div style={{ display: 'flex', width: '180px' }}>{holdingsCount} tokens</div>
+              <div style={{ display: 'flex', width: '260px', justifyContent: 'flex-end' }}>{formatAmount(totalValue)} MOXIE</div>
+            </div>
+          ))}
+          <div style={{ display: 'flex', fontSize: '26px', color: DEFAULT_THEME.mutedColor, marginTop: '12px' }}>
+            {selected ? `Showing ${getWalletLabel(wallets, selected)} only` : 'Showing all wallets'}
+          </div>
+        </CardBackground>
+      ),
+      intents: [
+        <Button action="/owned-tokens" value="0">Done</Button>,
+        <Button action="/owned-tokens/wallets" value="wallet">{`Wallet: ${getWalletLabel(wallets, selected)}`}</Button>,
+        ...(wallets.some(wallet => wallet.kind === 'vesting') ? [<Button action="/vesting" value="0">Vesting</Button>] : []),
+      ],
+    });
+  } catch (error) {
+    log.error('Error fetching wallet breakdown', { fid, error });
+    return c.res({
+      image: <ErrorScreen error={error} message="Error fetching wallets" />,
+      intents: [
+        <Button action="/">Home</Button>,
+        ...retryIntents(error, '/owned-tokens/wallets', c.buttonValue),
+      ]
+    });
+  }
+});
+
+app.frame('/vesting', async (c) => {
+  const { fid } = c.frameData || {};
+  const requestedIndex = Math.max(0, parseInt(c.buttonValue || '0') || 0);
+
+  if (!fid) {
+    log.warn('No FID found in frameData');
+    return c.res({
+      image: <ErrorScreen message="Error: No FID" />,
+      intents: [
+        <Button action="/">Back</Button>
+      ]
+    });
+  }
+
+  const budget = createLatencyBudget();
+
+  try {
+    const contracts = await budget.required(getVestingContractsForFID(fid.toString()));
+
+    if (contracts.length === 0) {
+      return c.res({
+        image: (
+          <MessageScreen title="No vesting contracts found" />
+        ),
+        intents: [
+          <Button action="/owned-tokens/wallets">Back</Button>
+        ]
+      });
+    }
+
+    const currentIndex = Math.min(requestedIndex, contracts.length - 1);
+    const contract = contracts[currentIndex];
+    const schedule = getVestingSchedule(contract);
+    const unlockedPercent = schedule.managedAmount > 0 ? (schedule.unlockedAmount / schedule.managedAmount) * 100 : 0;
+    const formatDate = (timestamp: number) => new Date(timestamp * 1000).toISOString().slice(0, 10);
+    const now = Math.floor(Date.now() / 1000);
+
+
+    return c.res({
+      image: (
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          width: '1200px',
+          height: '628px',
+          ...getBackgroundStyle(DEFAULT_THEME.holdingBackground),
+          color: '#000000',
+          padding: '40px',
+          boxSizing: 'border-box',
+          position: 'relative',
+        }}>
+          <PageIndicator current={currentIndex + 1} total={contracts.length} />
+          <div style={{ display: 'flex', fontSize: '44px', textShadow: '0 0 10px rgba(128, 0, 128, 0.5)' }}>
+            Vesting Contract {shortenAddress(contract.address)}
+          </div>
+          <div style={{ display: 'flex', fontSize: '28px', marginBottom: '10px' }}>
+            {formatAmount(schedule.managedAmount)} MOXIE over {schedule.periods} periods, {formatDate(schedule.startTime)} to {formatDate(schedule.endTime)}
+          </div>
+          <div style={{ display: 'flex', width: '960px', height: '24px', borderRadius: '12px', backgroundColor: 'rgba(255, 255, 255, 0.8)', marginBottom: '10px' }}>
+            <div style={{ display: 'flex', width: `${unlockedPercent.toFixed(1)}%`, height: '100%', borderRadius: '12px', backgroundColor: '#9054FF' }} />
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'row', justifyContent: 'center', width: '100%' }}>
+            <StatCard label="Unlocked" value={`${formatAmount(schedule.unlockedAmount)} MOXIE`} />
+            <StatCard label="Locked" value={`${formatAmount(schedule.lockedAmount)} MOXIE`} />
+            <StatCard label="Released" value={`${formatAmount(schedule.releasedAmount)} MOXIE`} />
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', fontSize: '26px', marginTop: '10px' }}>
+            {schedule.cliffTime && schedule.cliffTime > now && (
+              <div style={{ display: 'flex' }}>Cliff: nothing unlocks before {formatDate(schedule.cliffTime)}</div>
+            )}
+            {schedule.upcomingUnlocks.length > 0 ? (
+              <div style={{ display: 'flex' }}>
+                Next unlocks: {schedule.upcomingUnlocks.map(unlock => `${formatDate(unlock.timestamp)} (${formatAmount(unlock.amount)})`).join(' · ')}
+              </div>
+            ) : (
+              <div style={{ display: 'flex' }}>Fully unlocked</div>
+            )}
+          </div>
+        </div>
+      ),
+      intents: [
+        <Button action="/owned-tokens/wallets">Back</Button>,
+        ...(currentIndex < contracts.length - 1 ? [<Button action="/vesting" value={(currentIndex + 1).toString()}>Next</Button>] : []),
+        ...(currentIndex > 0 ? [<Button action="/vesting" value={(currentIndex - 1).toString()}>Previous</Button>] : []),
+      ]
+    });
+  } catch (error) {
+    log.error('Error fetching vesting contracts', { fid, error });
+    return c.res({
+      image: <ErrorScreen error={error} message="Error fetching vesting contracts" />,
+      intents: [
+        <Button action="/">Home</Button>,
+        ...retryIntents(error, '/vesting', c.buttonValue),
+      ]
+    });
+  }
+});
+
+app.frame('/owned-tokens/alert', async (c) => {
+  const { fid } = c.frameData || {};
+  // Button values: "<index>" shows the picker, "<index>:<percent|custom>"
+  // subscribes and "<index>:undo:<alert id>" removes the alert just created
+  const [indexValue, action, alertId] = (c.buttonValue || '0').split(':');
+  const currentIndex = Math.max(0, parseInt(indexValue) || 0);
+
+  log.debug('Frame request', { fid, currentIndex, action });
+
+  if (!fid) {
+    log.warn('No FID found in frameData');
+    return c.res({
+      image: <ErrorScreen message="Error: No FID" />,
+      intents: [
+        <Button action="/">Back</Button>
+      ]
+    });
+  }
+
+  const budget = createLatencyBudget();
+
+  try {
+    const addresses = await budget.required(getHoldingAddressesForFID(fid.toString()));
+    const allOwnedTokens = await budget.required(getOwnedTokensInView(addresses, c.previousState.holdingsView));
+    const token = allOwnedTokens[currentIndex];
+
+    if (!token) {
+      log.warn('No fan token at index', { fid, currentIndex });
+      return c.res({
+        image: <ErrorScreen message="No fan token found for this index" />,
+        intents: [
+          <Button action="/owned-tokens" value="0">Back</Button>
+        ]
+      });
+    }
+
+    const tokenName = token.subjectToken.name || token.subjectToken.symbol;
+    const currentPrice = parseFloat(token.subjectToken.currentPriceInMoxie);
+    const backIntent = <Button action="/owned-tokens" value={currentIndex.toString()}>Back</Button>;
+
+    if (!Number.isFinite(currentPrice) || currentPrice <= 0) {
+      return c.res({
+        image: <ErrorScreen message={`${tokenName} has no price yet`} hint="Alerts measure moves from the current price" />,
+        intents: [backIntent]
+      });
+    }
+
+    const message = `Get notified when ${tokenName} moves`;
+    let detail = `Current price: ${formatAmount(token.subjectToken.currentPriceInMoxie)} MOXIE`;
+
+    if (action === 'undo' && alertId) {
+      // The id comes from a button value, so only the alert's owner may remove it
+      const alert = await getAlertStore().get(alertId);
+      if (alert?.fid === fid.toString()) {
+        await getAlertStore().remove(alertId);
+        log.info('Removed price alert', { fid, alertId });
+        detail = 'Alert removed';
+      } else {
+        log.warn('Refused to remove price alert', { fid, alertId, owner: alert?.fid ?? null });
+        detail = 'Alert not found';
+      }
+    } else if (action) {
+      const thresholdPercent = action === 'custom' ? parseFloat(c.inputText || '') : parseFloat(action);
+
+      if (!isNaN(thresholdPercent) && thresholdPercent > 0 && thresholdPercent <= 1000) {
+        const alert = await createPriceAlert(fid.toString(), token.subjectToken.symbol, tokenName, thresholdPercent, currentPrice);
+        log.info('Created price alert', { fid, alertId: alert.id, symbol: alert.symbol, thresholdPercent });
+
+        return c.res({
+          image: (
+            <MessageScreen title="Alert set 🔔" message={`You'll be notified when ${tokenName} moves ±${formatPercent(thresholdPercent, { signed: false })} from ${formatAmount(token.subjectToken.currentPriceInMoxie)} MOXIE`} />
+          ),
+          intents: [
+            backIntent,
+            <Button action="/owned-tokens/alert" value={`${currentIndex}:undo:${alert.id}`}>Undo</Button>,
+          ]
+        });
+      }
+
+      detail = 'Enter a percentage between 0 and 1000';
+    }
+
+    return c.res({
+      image: (
+        <MessageScreen title={message} message={detail} />
+      ),
+      intents: [
+        <TextInput placeholder="Custom move in % (e.g. 15)" />,
+        backIntent,
+        <Button action="/owned-tokens/alert" value={`${currentIndex}:5`}>±5%</Button>,
+        <Button action="/owned-tokens/alert" value={`${currentIndex}:10`}>±10%</Button>,
+        <Button action="/owned-tokens/alert" value={`${currentIndex}:custom`}>Custom</Button>,
+      ]
+    });
+  } catch (error) {
+    log.error('Error setting price alert', { fid, error });
+
+    return c.res({
+      image: <ErrorScreen error={error} message="Error setting price alert" />,
+      intents: [
+        <Button action="/">Home</Button>
+      ]
+    });
+  }
+});
+
+app.frame('/trades', async (c) => {
+  const { fid } = c.frameData || {};
+  // Button values are "<token index>:<page>"; the index matches /owned-tokens
+  const [indexValue, pageValue] = (c.buttonValue || '0').split(':');
+  const currentIndex = Math.max(0, parseInt(indexValue) || 0);
+  const requestedPage = Math.max(0, parseInt(pageValue) || 0);
+  const tradesPerPage = 5;
+
+  log.debug('Frame request', { fid, currentIndex, requestedPage });
+
+  if (!fid) {
+    log.warn('No FID found in frameData');
+    return c.res({
+      image: <ErrorScreen message="Error: No FID" />,
+      intents: [
+        <Button action="/">Back</Button>
+      ]
+    });
+  }
+
+  const budget = createLatencyBudget();
+
+  try {
+    const { holdingsView } = c.previousState;
+    const holdingAddresses = await budget.required(getHoldingAddressesForFID(fid.toString()));
+    const allOwnedTokens = await budget.required(getOwnedTokensInView(holdingAddresses, holdingsView));
+    const token = allOwnedTokens[currentIndex];
+
+    if (!token) {
+      log.warn('No fan token at index', { fid, currentIndex });
+      return c.res({
+        image: <ErrorScreen message="No fan token found for this index" />,
+        intents: [
+          <Button action="/owned-tokens" value="0">Back</Button>
+        ]
+      });
+    }
+
+    // Follow the wallet filter so the history matches the balance on the card
+    const addresses = holdingsView.wallet ? [holdingsView.wallet] : holdingAddresses;
+    const trades = await budget.required(getTokenTrades(addresses, token.subjectToken.symbol));
+    const tokenName = token.subjectToken.name || token.subjectToken.symbol;
+    const decimals = token.subjectToken.decimals || MOXIE_DECIMALS;
+
+    const totalPages = Math.max(1, Math.ceil(trades.length / tradesPerPage));
+    const currentPage = Math.min(requestedPage, totalPages - 1);
+    const pageTrades = trades.slice(currentPage * tradesPerPage, (currentPage + 1) * tradesPerPage);
+
+    const formatDate = (timestamp: string) => new Date(parseInt(timestamp) * 1000).toISOString().slice(0, 10);
+
+    return c.res({
+      image: (
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          width: '1200px',
+          height: '628px',
+          ...getBackgroundStyle(DEFAULT_THEME.holdingBackground),
+          color: '#000000',
+          padding: '40px',
+          boxSizing: 'border-box',
+          position: 'relative',
+        }}>
+          <div style={{ display: 'flex', fontSize: '44px', marginBottom: '20px', textShadow: '0 0 10px rgba(128, 0, 128, 0.5)' }}>
+            Your {tokenName} Trades
+          </div>
+          {pageTrades.length === 0 ? (
+            <div style={{ display: 'flex', fontSize: '32px' }}>No trades found</div>
+          ) : (
+            <div style={{
+              display: 'flex',
+              flexDirection: 'column',
+              width: '1000px',
+              backgroundColor: 'rgba(255, 255, 255, 0.8)',
+              borderRadius: '15px',
+              padding: '20px',
+              boxShadow: '0 4px 8px rgba(0, 0, 0, 0.1)',
+            }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '26px', fontWeight: 'bold', paddingBottom: '8px' }}>
+                <div style={{ display: 'flex', width: '200px' }}>Date</div>
+                <div style={{ display: 'flex', width: '120px' }}>Type</div>
+                <div style={{ display: 'flex', width: '200px', justifyContent: 'flex-end' }}>Tokens</div>
+                <div style={{ display: 'flex', width: '200px', justifyContent: 'flex-end' }}>Price</div>
+                <div style={{ display: 'flex', width: '220px', justifyContent: 'flex-end' }}>Total (MOXIE)</div>
+              </div>
+              {pageTrades.map(trade => (
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '28px', padding: '6px 0' }}>
+                  <div style={{ display: 'flex', width: '200px' }}>{formatDate(trade.blockTimestamp)}</div>
+                  <div style={{ display: 'flex', width: '120px', color: trade.orderType === 'BUY' ? '#2E7D32' : '#D32F2F' }}>
+                    {trade.orderType === 'BUY' ? 'Buy' : 'Sell'}
+                  </div>
+                  <div style={{ display: 'flex', width: '200px', justifyContent: 'flex-end' }}>
+                    {formatTokenAmount(trade.subjectAmount, decimals)}
+                  </div>
+                  <div style={{ display: 'flex', width: '200px', justifyContent: 'flex-end' }}>
+                    {formatAmount(trade.price)}
+                  </div>
+                  <div style={{ display: 'flex', width: '220px', justifyContent: 'flex-end' }}>
+                    {formatTokenAmount(trade.protocolTokenAmount)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <PageIndicator current={currentPage + 1} total={totalPages} />
+        </div>
+      ),
+      intents: [
+        <Button action="/owned-tokens" value={currentIndex.toString()}>Back</Button>,
+        ...(currentPage < totalPages - 1 ? [<Button action="/trades" value={`${currentIndex}:${currentPage + 1}`}>Next</Button>] : []),
+        ...(currentPage > 0 ? [<Button action="/trades" value={`${currentIndex}:${currentPage - 1}`}>Previous</Button>] : []),
+        <Button action="/owned-tokens/alert" value={currentIndex.toString()}>Alert</Button>,
+      ]
+    });
+  } catch (error) {
+    log.error('Error fetching trades', { fid, error });
+    return c.res({
+      image: <ErrorScreen error={error} message="Error fetching trades" />,
+      intents: [
+        <Button action="/">Home</Button>,
+        ...retryIntents(error, '/trades', c.buttonValue),
+      ]
+    });
+  }
+});
+
+// Hit on a schedule (see vercel.json); Vercel Cron sends CRON_SECRET as a bearer
+// token. Fails closed: without CRON_SECRET nobody can trigger the check.
+app.get('/cron/price-alerts', async (c) => {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || c.req.header('Authorization') !== `Bearer ${cronSecret}`) {
+    if (!cronSecret) {
+      log.warn('CRON_SECRET is not set; refusing price alert check');
+    }
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const result = await settle(checkPriceAlerts());
+  if (!result.ok) {
+    log.warn('Price alert check skipped', { source: result.error.source, kind: result.error.kind });
+    return c.json({ error: result.error.message }, 503);
+  }
+  return c.json(result.data);
+});
+
+app.frame('/share-owned', async (c) => {
+  // The holding is only taken from a signed share payload; anything else is re-fetched
+  const shareState = verifyShareState<OwnedTokenShareState>(c.req.query('s'));
+  const fid = shareState?.fid || c.req.query('fid');
+  const symbol = c.req.query('symbol');
+  const wallet = c.req.query('wallet')?.toLowerCase();
+  // Links shared before symbol and wallet were added point at a carousel index
+  const tokenIndex = Math.max(0, parseInt(c.req.query('tokenIndex') || '0') || 0);
+  const currency = c.req.query('currency');
+
+  log.debug('Frame request', { fid, symbol, wallet, tokenIndex, signedAt: shareState?.ts ?? null });
+
+  if (!fid) {
+    log.warn('No FID found in frameData');
+    return c.res({
+      image: <ErrorScreen message="Error: No FID provided" />,
+      intents: [
+        <Button action="/">Home</Button>
+      ]
+    });
+  }
+
+  const budget = createLatencyBudget();
+
+  try {
+    let token: TokenHolding;
+
+    if (shareState) {
+      token = shareState.holding;
+    } else {
+      log.info('No valid share state, fetching live data', { fid });
+      const addresses = await budget.required(getHoldingAddressesForFID(fid.toString()));
+      const allOwnedTokens = await budget.required(getOwnedTokensInView(addresses, DEFAULT_HOLDINGS_VIEW));
+      const holding = symbol
+        ? allOwnedTokens.find(owned =>
+          owned.subjectToken.symbol === symbol && (!wallet || owned.address?.toLowerCase() === wallet))
+        : allOwnedTokens[tokenIndex];
+
+      if (!holding) {
+        log.warn('Shared holding not found', { fid, symbol, wallet, tokenIndex, count: allOwnedTokens.length });
+        return c.res({
+          image: <ErrorScreen message="This fan token is no longer held" />,
+          intents: [
+            <Button action="/">Home</Button>
+          ]
+        });
+      }
+
+      token = holding;
+    }
+
+    const tokenFid = token.subjectToken.symbol.startsWith('fid:') ? token.subjectToken.symbol.split(':')[1] : '';
+    const channelId = getChannelIdFromSymbol(token.subjectToken.symbol);
+    const [tokenProfileInfo, channelInfo, display] = await Promise.all([
+      tokenFid ? budget.optional(getProfileInfo(tokenFid), null) : null,
+      channelId ? budget.optional(getChannelInfo(channelId), null) : null,
+      getMoxieDisplay(isDisplayCurrency(currency) ? currency : 'MOXIE', budget),
+    ]);
+
+    const tokenBalance = formatTokenAmount(token.balance, token.subjectToken.decimals || MOXIE_DECIMALS);
+    const buyVolume = formatMoxieValue(toDecimalString(token.buyVolume), display);
+    const currentPrice = formatMoxieValue(token.subjectToken.currentPriceInMoxie, display);
+
+    const tokenOwnerName = tokenProfileInfo?.farcasterSocial?.profileDisplayName || (channelInfo && `/${channelInfo.channelId}`) || token.subjectToken.name || 'Unknown';
+    const tokenImageUrl = tokenProfileInfo?.farcasterSocial?.profileImage || channelInfo?.imageUrl;
+
+    return c.res({
+      image: (
+        <CardBackground background={DEFAULT_THEME.holdingBackground} padding="40px">
+          <TokenHeader
+            title={tokenOwnerName}
+            imageUrl={tokenImageUrl}
+            avatarSize={130}
+            placeholder="Channel"
+            color={DEFAULT_THEME.holdingTitleColor}
+          />
+          <StatRow>
+            <StatCard label="Balance" value={`${tokenBalance} tokens`} />
+            <StatCard label="Value" value={formatMoxieValue(getHoldingValue(token), display)} />
+          </StatRow>
+          <StatRow>
+            <StatCard label="Buy Volume" value={buyVolume} />
+            <StatCard label="Current Price" value={currentPrice} />
+          </StatRow>
+        </CardBackground>
+      ),
+      intents: [
+        <Button action="/owned-tokens">Check Your Owned Tokens</Button>
+      ]
+    });
+  } catch (error) {
+    log.error('Error fetching fan token data', { fid, error });
+    
+    return c.res({
+      image: <ErrorScreen error={error} message="Error fetching fan token data" />,
+      intents: [
+        <Button action="/">Home</Button>
+      ]
+    });
+  }
+});
+
+app.frame('/trending', async (c) => {
+  const metrics: TrendingMetric[] = ['volume', 'priceChange', 'newHolders'];
+  const metric = metrics.find(m => m === c.buttonValue) ?? 'volume';
+  // Each token gets a button, leaving room for Back and the metric toggle
+  const shownCount = 2;
+
+  const budget = createLatencyBudget();
+
+  try {
+    const snapshots = await budget.required(getRecentHourlySnapshots(24));
+    const trending = rankTrendingTokens(summarizeTrendingTokens(snapshots), metric, shownCount);
+
+    log.debug('Trending tokens', { metric, symbols: trending.map(token => token.symbol) });
+
+    // Users open in /yourfantoken, channels in /channel-token
+    const detailIntents = trending.map((token, i) => {
+      const label = `${i + 1}. ${token.name.length > 14 ? `${token.name.slice(0, 13)}…` : token.name}`;
+      return getChannelIdFromSymbol(token.symbol)
+        ? <Button action="/channel-token" value={token.symbol}>{label}</Button>
+        : <Button action="/yourfantoken" value={token.symbol}>{label}</Button>;
+    });
+    const nextMetric = nextOption(metrics, metric);
+
+    return c.res({
+      image: (
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          width: '1200px',
+          height: '628px',
+          ...getBackgroundStyle(DEFAULT_THEME.holdingBackground),
+          color: '#000000',
+          padding: '40px',
+          boxSizing: 'border-box',
+        }}>
+          <div style={{ display: 'flex', fontSize: '48px', marginBottom: '20px', textShadow: '0 0 10px rgba(128, 0, 128, 0.5)' }}>
+            Trending Fan Tokens · 24h {TRENDING_METRIC_LABELS[metric]}
+          </div>
+          {trending.length === 0 ? (
+            <div style={{ display: 'flex', fontSize: '32px' }}>No trades in the last 24 hours</div>
+          ) : (
+            <div style={{
+              display: 'flex',
+              flexDirection: 'column',
+              width: '1040px',
+              backgroundColor: 'rgba(255, 255, 255, 0.8)',
+              borderRadius: '15px',
+              padding: '20px',
+              boxShadow: '0 4px 8px rgba(0, 0, 0, 0.1)',
+            }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '26px', fontWeight: 'bold', paddingBottom: '8px' }}>
+                <div style={{ display: 'flex', width: '360px' }}>Token</div>
+                <div style={{ display: 'flex', width: '200px', justifyContent: 'flex-end' }}>Price</div>
+                <div style={{ display: 'flex', width: '160px', justifyContent: 'flex-end' }}>24h</div>
+                <div style={{ display: 'flex', width: '160px', justifyContent: 'flex-end' }}>Volume</div>
+                <div style={{ display: 'flex', width: '140px', justifyContent: 'flex-end' }}>New</div>
+              </div>
+              {trending.map((token, i) => (
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '30px', padding: '10px 0' }}>
+                  <div style={{ display: 'flex', width: '360px' }}>{i + 1}. {token.name}</div>
+                  <div style={{ display: 'flex', width: '200px', justifyContent: 'flex-end' }}>{formatAmount(token.currentPrice)}</div>
+                  <div style={{ display: 'flex', width: '160px', justifyContent: 'flex-end', color: pnlColor(token.priceChangePercent) }}>
+                    {formatPercent(token.priceChangePercent)}
+                  </div>
+                  <div style={{ display: 'flex', width: '160px', justifyContent: 'flex-end' }}>{formatAmount(token.volume)}</div>
+                  <div style={{ display: 'flex', width: '140px', justifyContent: 'flex-end' }}>+{token.newHolders}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ),
+      intents: [
+        <Button action="/portfolio-summary">Back</Button>,
+        ...detailIntents,
+        <Button action="/trending" value={nextMetric}>{`By ${TRENDING_METRIC_LABELS[nextMetric]}`}</Button>,
+      ],
+    });
+  } catch (error) {
+    log.error('Error fetching trending tokens', { metric, error });
+    return c.res({
+      image: <ErrorScreen error={error} message="Error fetching trending tokens" />,
+      intents: [
+        <Button action="/">Home</Button>,
+        ...retryIntents(error, '/trending', c.buttonValue),
+      ]
+    });
+  }
+});
+
+app.frame('/portfolio-summary', async (c) => {
+  const { fid } = c.frameData ?? {};
+
+  log.debug('Frame request', { fid });
+
+  if (!fid) {
+    log.warn('No FID found in frameData');
+    return c.res({
+      image: <ErrorScreen message="Error: No FID" />,
+      intents: [
+        <Button action="/">Back</Button>
+      ]
+    });
+  }
+
+  const budget = createLatencyBudget();
+
+  try {
+    const allOwnedTokens = await budget.required(getOwnedFanTokensForFID(fid.toString()));
+
+    if (allOwnedTokens.length === 0) {
+      log.info('No fan tokens found', { fid });
+      return c.res({
+        image: <ErrorScreen message="You don't own any fan tokens yet" />,
+        intents: [
+          <Button action="/">Home</Button>,
+          <Button action="/yourfantoken" value="self">Your Fan Token</Button>
+        ]
+      });
+    }
+
+    const summary = summarizePortfolio(allOwnedTokens);
+    log.debug('Portfolio summary', {
+      totalValue: summary.totalValue,
+      buyVolume: summary.buyVolume,
+      sellVolume: summary.sellVolume,
+      holdingsCount: summary.holdingsCount,
+      tokenCount: summary.tokenCount,
+    });
+
+    const shareText = `My Fan Token portfolio powered by @moxie.eth is worth ${formatAmount(summary.totalValue)} MOXIE across ${formatCount(summary.tokenCount, { compact: false })} tokens 👀. Frame by @goldie`;
+    const shareUrl = `https://fantokens-kappa.vercel.app/api/share-portfolio?fid=${fid}&timestamp=${Date.now()}`;
+    const farcasterShareURL = `https://warpcast.com/~/compose?text=${encodeURIComponent(shareText)}&embeds[]=${encodeURIComponent(shareUrl)}`;
+
+    return c.res({
+      image: <PortfolioSummaryCard summary={summary} />,
+      intents: [
+        <Button action="/">Home</Button>,
+        <Button action="/owned-tokens" value="0">Holdings</Button>,
+        <Button action="/trending">Trending</Button>,
+        <Button.Link href={farcasterShareURL}>Share</Button.Link>,
+      ]
+    });
+  } catch (error) {
+    log.error('Error building portfolio summary', { fid, error });
+
+    return c.res({
+      image: <ErrorScreen error={error} message="Error fetching portfolio data" />,
+      intents: [
+        <Button action="/">Home</Button>,
+        ...retryIntents(error, '/portfolio-summary', c.buttonValue),
+      ]
+    });
+  }
+});
+
+app.frame('/share-portfolio', async (c) => {
+  const fid = c.req.query('fid');
+
+  log.debug('Frame request', { fid });
+
+  if (!fid) {
+    log.warn('No FID found in frameData');
+    return c.res({
+      image: <ErrorScreen message="Error: No FID" />,
+      intents: [
+        <Button action="/">Home</Button>
+      ]
+    });
+  }
+
+  const budget = createLatencyBudget();
+
+  try {
+    const allOwnedTokens = await budget.required(getOwnedFanTokensForFID(fid));
+    const summary = summarizePortfolio(allOwnedTokens);
+
+    return c.res({
+      image: <PortfolioSummaryCard summary={summary} />,
+      intents: [
+        <Button action="/portfolio-summary">Check Your Portfolio</Button>
+      ]
+    });
+  } catch (error) {
+    log.error('Error building portfolio summary', { fid, error });
+
+    return c.res({
+      image: <ErrorScreen error={error} message="Error fetching portfolio data" />,
       intents: [
         <Button action="/">Home</Button>
       ]
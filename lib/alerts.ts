@@ -0,0 +1,203 @@
+import { randomUUID } from 'node:crypto';
+import { getConfiguredKeyValueClient, type KeyValueClient } from './cache.js';
+import { getProfileInfo, getSubjectTokenPrices } from './fetchers.js';
+import { formatAmount, formatPercent } from './format.js';
+import { createLogger } from './logger.js';
+import {
+  createDirectCastNotifier,
+  createNeynarCastNotifier,
+  createStubNotifier,
+  createWebhookNotifier,
+  type Notifier,
+} from './notifiers.js';
+
+const log = createLogger('alerts');
+
+export interface PriceAlert {
+  id: string;
+  // Who gets notified
+  fid: string;
+  // The subject token being watched, e.g. fid:3 or cid:farcaster
+  symbol: string;
+  tokenName: string;
+  thresholdPercent: number;
+  // Price the next move is measured from; reset after every notification
+  baselinePrice: number;
+  createdAt: number;
+  lastNotifiedAt?: number;
+}
+
+export interface AlertStore {
+  list(): Promise<PriceAlert[]>;
+  get(id: string): Promise<PriceAlert | null>;
+  save(alert: PriceAlert): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export function createMemoryAlertStore(): AlertStore {
+  const alerts = new Map<string, PriceAlert>();
+
+  return {
+    async list() {
+      return [...alerts.values()];
+    },
+    async get(id: string) {
+      return alerts.get(id) ?? null;
+    },
+    async save(alert: PriceAlert) {
+      alerts.set(alert.id, alert);
+    },
+    async remove(id: string) {
+      alerts.delete(id);
+    },
+  };
+}
+
+// All alerts live under one key; fine for the few hundred a frame will collect
+export function createKeyValueAlertStore(client: KeyValueClient, key: string = 'fantokens:alerts'): AlertStore {
+  const read = async () => (await client.get<PriceAlert[]>(key)) ?? [];
+
+  return {
+    list: read,
+    async get(id: string) {
+      return (await read()).find(alert => alert.id === id) ?? null;
+    },
+    async save(alert: PriceAlert) {
+      const alerts = (await read()).filter(existing => existing.id !== alert.id);
+      await client.set(key, [...alerts, alert]);
+    },
+    async remove(id: string) {
+      const alerts = await read();
+      await client.set(key, alerts.filter(alert => alert.id !== id));
+    },
+  };
+}
+
+let alertStore: AlertStore | null = null;
+
+// Frames and the cron job run in separate serverless invocations, so alerts
+// need the KV store to reach the check. Without one they stay in memory,
+// which only works for a single long-running process such as `frog dev`.
+export function getAlertStore(): AlertStore {
+  if (!alertStore) {
+    const client = getConfiguredKeyValueClient();
+    if (!client) {
+      log.warn('No KV store configured; price alerts are kept in memory');
+    }
+    alertStore = client ? createKeyValueAlertStore(client) : createMemoryAlertStore();
+  }
+  return alertStore;
+}
+
+export function setAlertStore(store: AlertStore | null): void {
+  alertStore = store;
+}
+
+let notifier: Notifier | null = null;
+
+// ALERT_NOTIFIER picks the delivery channel; anything unset falls back to the stub
+export function getNotifier(): Notifier {
+  if (!notifier) {
+    switch (process.env.ALERT_NOTIFIER) {
+      case 'direct-cast':
+        notifier = createDirectCastNotifier(process.env.WARPCAST_API_KEY || '');
+        break;
+      case 'neynar':
+        notifier = createNeynarCastNotifier(
+          process.env.NEYNAR_API_KEY || '',
+          process.env.NEYNAR_SIGNER_UUID || '',
+          async fid => (await getProfileInfo(fid))?.farcasterSocial.profileName ?? null
+        );
+        break;
+      case 'webhook':
+        notifier = createWebhookNotifier(process.env.ALERT_WEBHOOK_URL || '');
+        break;
+      default:
+        notifier = createStubNotifier();
+    }
+  }
+  return notifier;
+}
+
+export function setNotifier(value: Notifier | null): void {
+  notifier = value;
+}
+
+export async function createPriceAlert(
+  fid: string,
+  symbol: string,
+  tokenName: string,
+  thresholdPercent: number,
+  baselinePrice: number
+): Promise<PriceAlert> {
+  // Moves are measured from the baseline, so it has to be a real price
+  if (!Number.isFinite(baselinePrice) || baselinePrice <= 0) {
+    throw new Error(`No price to watch ${symbol} from: ${baselinePrice}`);
+  }
+
+  const alert: PriceAlert = {
+    id: randomUUID(),
+    fid,
+    symbol,
+    tokenName,
+    thresholdPercent,
+    baselinePrice,
+    createdAt: Date.now(),
+  };
+  await getAlertStore().save(alert);
+  return alert;
+}
+
+export interface AlertCheckResult {
+  checked: number;
+  notified: number;
+  failed: number;
+}
+
+export function formatAlertMessage(alert: PriceAlert, currentPrice: number, changePercent: number): string {
+  const direction = changePercent >= 0 ? 'up' : 'down';
+  const change = formatPercent(Math.abs(changePercent), { signed: false });
+  return `${alert.tokenName} (${alert.symbol}) is ${direction} ${change} to ${formatAmount(currentPrice)} MOXIE (from ${formatAmount(alert.baselinePrice)}).`;
+}
+
+// Run on a schedule: notify every alert whose token moved past its threshold
+// and re-arm it at the new price.
+export async function checkPriceAlerts(
+  store: AlertStore = getAlertStore(),
+  alertNotifier: Notifier = getNotifier()
+): Promise<AlertCheckResult> {
+  const alerts = await store.list();
+  const result: AlertCheckResult = { checked: alerts.length, notified: 0, failed: 0 };
+
+  if (alerts.length === 0) {
+    return result;
+  }
+
+  const symbols = [...new Set(alerts.map(alert => alert.symbol))];
+  const prices = await getSubjectTokenPrices(symbols);
+
+  for (const alert of alerts) {
+    const currentPrice = prices[alert.symbol];
+    // Also skips a NaN baseline, which comes back from KV as null
+    if (currentPrice === undefined || !(alert.baselinePrice > 0)) {
+      continue;
+    }
+
+    const changePercent = ((currentPrice - alert.baselinePrice) / alert.baselinePrice) * 100;
+    if (Math.abs(changePercent) < alert.thresholdPercent) {
+      continue;
+    }
+
+    try {
+      await alertNotifier.send(alert.fid, formatAlertMessage(alert, currentPrice, changePercent));
+      await store.save({ ...alert, baselinePrice: currentPrice, lastNotifiedAt: Date.now() });
+      result.notified++;
+    } catch (error) {
+      log.error('Error sending price alert', { alertId: alert.id, notifier: alertNotifier.name, error });
+      result.failed++;
+    }
+  }
+
+  log.info('Price alerts checked', { ...result });
+  return result;
+}
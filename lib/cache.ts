@@ -0,0 +1,217 @@
+import { createHash } from 'node:crypto';
+import type { DataProvider, DataSource, DataSourceName, QueryVariables } from './data-sources.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('cache');
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+}
+
+// Anything that can hold entries for a while: process memory by default, or a
+// shared KV store so warm entries survive across serverless invocations.
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>, expiresInMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CachePolicy {
+  // How long a response is served without asking upstream again
+  ttlMs: number;
+  // How much longer it may be served while a refresh runs in the background
+  staleMs: number;
+}
+
+export const DEFAULT_CACHE_POLICIES: Record<DataSourceName, CachePolicy> = {
+  // Prices and balances move constantly
+  moxie: { ttlMs: 60 * 1000, staleMs: 5 * 60 * 1000 },
+  // Profiles and linked addresses rarely change
+  airstack: { ttlMs: 10 * 60 * 1000, staleMs: 60 * 60 * 1000 },
+  // Lock wallets are created once per beneficiary
+  vesting: { ttlMs: 60 * 60 * 1000, staleMs: 24 * 60 * 60 * 1000 },
+};
+
+export function createMemoryCacheStore(maxEntries: number = 500): CacheStore {
+  const entries = new Map<string, { entry: CacheEntry; expiresAt: number }>();
+
+  return {
+    async get<T>(key: string) {
+      const item = entries.get(key);
+      if (!item) return undefined;
+      if (item.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      // Re-insert so the Map's insertion order tracks recency
+      entries.delete(key);
+      entries.set(key, item);
+      return item.entry as CacheEntry<T>;
+    },
+    async set<T>(key: string, entry: CacheEntry<T>, expiresInMs: number) {
+      entries.delete(key);
+      entries.set(key, { entry, expiresAt: Date.now() + expiresInMs });
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value as string;
+        entries.delete(oldestKey);
+      }
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+  };
+}
+
+// The subset of a Redis-style client (@vercel/kv, @upstash/redis) the cache needs
+export interface KeyValueClient {
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, options?: { px: number }): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+// Frames render against a latency budget, so a slow store gives up rather
+// than holding the response
+const KV_TIMEOUT_MS = 1500;
+
+// Vercel KV and Upstash take Redis commands as JSON arrays over HTTPS; values
+// are stored as JSON so they come back with the type they were saved with
+export function createRestKeyValueClient(url: string, token: string, timeoutMs = KV_TIMEOUT_MS): KeyValueClient {
+  const command = async <T>(args: (string | number)[]): Promise<T> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`KV ${args[0]} failed: ${response.status} ${await response.text()}`);
+    }
+    return (await response.json() as { result: T }).result;
+  };
+
+  return {
+    async get<T>(key: string) {
+      const value = await command<string | null>(['GET', key]);
+      return value === null ? null : JSON.parse(value) as T;
+    },
+    async set(key: string, value: unknown, options?: { px: number }) {
+      return command(options
+        ? ['SET', key, JSON.stringify(value), 'PX', options.px]
+        : ['SET', key, JSON.stringify(value)]);
+    },
+    async del(key: string) {
+      return command(['DEL', key]);
+    },
+  };
+}
+
+// Linking a KV store to a Vercel project sets KV_REST_API_URL and
+// KV_REST_API_TOKEN; null when neither is set
+export function getConfiguredKeyValueClient(): KeyValueClient | null {
+  const url = process.env.KV_REST_API_URL;
+  const token = process.env.KV_REST_API_TOKEN;
+  return url && token ? createRestKeyValueClient(url, token) : null;
+}
+
+export function createKeyValueCacheStore(client: KeyValueClient, prefix: string = 'fantokens:'): CacheStore {
+  return {
+    async get<T>(key: string) {
+      const entry = await client.get<CacheEntry<T>>(prefix + key);
+      return entry ?? undefined;
+    },
+    async set<T>(key: string, entry: CacheEntry<T>, expiresInMs: number) {
+      await client.set(prefix + key, entry, { px: expiresInMs });
+    },
+    async delete(key: string) {
+      await client.del(prefix + key);
+    },
+  };
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function getCacheKey(source: DataSourceName, query: string, variables: QueryVariables = {}): string {
+  const hash = createHash('sha1').update(query).update(stableStringify(variables)).digest('hex');
+  return `${source}:${hash}`;
+}
+
+export function createCachedSource(source: DataSource, store: CacheStore, policy: CachePolicy): DataSource {
+  const inFlight = new Map<string, Promise<unknown>>();
+
+  // Concurrent callers asking for the same key share one upstream request
+  const refresh = <T>(key: string, query: string, variables?: QueryVariables): Promise<T> => {
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request = source.request<T>(query, variables)
+      .then(async value => {
+        try {
+          await store.set(key, { value, storedAt: Date.now() }, policy.ttlMs + policy.staleMs);
+        } catch (error) {
+          log.error('Error writing cache', { source: source.name, error });
+        }
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+
+    inFlight.set(key, request);
+    return request;
+  };
+
+  return {
+    name: source.name,
+    async request<T>(query: string, variables?: QueryVariables): Promise<T> {
+      const key = getCacheKey(source.name, query, variables);
+
+      let cached: CacheEntry<T> | undefined;
+      try {
+        cached = await store.get<T>(key);
+      } catch (error) {
+        log.error('Error reading cache', { source: source.name, error });
+      }
+
+      if (cached) {
+        const age = Date.now() - cached.storedAt;
+        if (age < policy.ttlMs) {
+          log.debug('Cache hit', { source: source.name, key, ageMs: age });
+          return cached.value;
+        }
+        if (age < policy.ttlMs + policy.staleMs) {
+          log.debug('Serving stale cache entry', { source: source.name, key, ageMs: age });
+          refresh<T>(key, query, variables).catch(error => {
+            log.error('Error revalidating cache', { source: source.name, error });
+          });
+          return cached.value;
+        }
+      }
+
+      return refresh<T>(key, query, variables);
+    },
+  };
+}
+
+export function withCache(
+  provider: DataProvider,
+  store: CacheStore,
+  policies: Record<DataSourceName, CachePolicy> = DEFAULT_CACHE_POLICIES
+): DataProvider {
+  return {
+    moxie: createCachedSource(provider.moxie, store, policies.moxie),
+    airstack: createCachedSource(provider.airstack, store, policies.airstack),
+    vesting: createCachedSource(provider.vesting, store, policies.vesting),
+  };
+}
@@ -0,0 +1,66 @@
+import type { PricePoint } from './types.js';
+
+export interface ChartGeometry {
+  linePath: string;
+  areaPath: string;
+  minPrice: number;
+  maxPrice: number;
+  firstPrice: number;
+  lastPrice: number;
+  changePercent: number;
+}
+
+// Scale price points into an SVG viewport of the given size. Time runs along x,
+// price along y (inverted, since SVG y grows downwards), with a little vertical
+// padding so a flat line doesn't sit on the border.
+export function buildPriceChart(points: PricePoint[], width: number, height: number): ChartGeometry | null {
+  if (points.length < 2) {
+    return null;
+  }
+
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const prices = sorted.map(point => point.price);
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+  const startTime = sorted[0].timestamp;
+  const timeSpan = sorted[sorted.length - 1].timestamp - startTime || 1;
+  const priceSpan = maxPrice - minPrice || 1;
+  const padding = height * 0.1;
+
+  const coordinates = sorted.map(point => {
+    const x = ((point.timestamp - startTime) / timeSpan) * width;
+    const y = padding + (1 - (point.price - minPrice) / priceSpan) * (height - 2 * padding);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  const linePath = `M ${coordinates.join(' L ')}`;
+  const areaPath = `${linePath} L ${width},${height} L 0,${height} Z`;
+  const firstPrice = sorted[0].price;
+  const lastPrice = sorted[sorted.length - 1].price;
+  const changePercent = getChangePercent(firstPrice, lastPrice);
+
+  return { linePath, areaPath, minPrice, maxPrice, firstPrice, lastPrice, changePercent };
+}
+
+function getChangePercent(firstPrice: number, lastPrice: number): number {
+  return firstPrice === 0 ? 0 : ((lastPrice - firstPrice) / firstPrice) * 100;
+}
+
+// Change from the oldest to the newest point, or null without two points
+export function getPriceChangePercent(points: PricePoint[]): number | null {
+  if (points.length < 2) {
+    return null;
+  }
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  return getChangePercent(sorted[0].price, sorted[sorted.length - 1].price);
+}
+
+// hono/jsx wraps <svg> children in a namespace context node that Frog's image
+// parser can't walk, so frames embed the chart as an SVG data URI instead
+export function renderPriceChartDataUri(chart: ChartGeometry, width: number, height: number, color: string): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<path d="${chart.areaPath}" fill="${color}" fill-opacity="0.15"/>`
+    + `<path d="${chart.linePath}" fill="none" stroke="${color}" stroke-width="4"/>`
+    + '</svg>';
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
@@ -0,0 +1,57 @@
+import { getPriceChangePercent } from './chart.js';
+import {
+  getFanTokenInfo,
+  getFanTokenPriceHistory,
+  getPowerboostScore,
+  getProfileInfo,
+} from './fetchers.js';
+import { formatHolderCount } from './format.js';
+import { createLatencyBudget, type LatencyBudget } from './upstream.js';
+
+// The figures /compare puts side by side; null where the data is missing
+export interface TokenComparison {
+  fid: string;
+  name: string;
+  imageUrl: string | null;
+  hasToken: boolean;
+  currentPrice: number | null;
+  // Formatted, since a capped holder list reads as e.g. "1K+"
+  holders: string | null;
+  powerboost: number | null;
+  weeklyChangePercent: number | null;
+}
+
+// Only the token is required; the rest are left null if they fail or the
+// budget runs out, so one slow source doesn't sink the whole comparison
+export async function getTokenComparison(fid: string, budget: LatencyBudget = createLatencyBudget()): Promise<TokenComparison> {
+  const [tokenInfo, profileInfo, powerboost] = await Promise.all([
+    budget.required(getFanTokenInfo(fid)),
+    budget.optional(getProfileInfo(fid), null),
+    budget.optional(getPowerboostScore(fid), null),
+  ]);
+
+  // The token info already resolved the token's address, which is its id
+  const subjectToken = tokenInfo?.subjectTokens?.[0];
+  const history = subjectToken ? await budget.optional(getFanTokenPriceHistory(subjectToken.id, '7d'), null) : null;
+  const currentPrice = subjectToken ? parseFloat(subjectToken.currentPriceInMoxie) : NaN;
+
+  return {
+    fid,
+    name: profileInfo?.farcasterSocial?.profileDisplayName || subjectToken?.name || `FID ${fid}`,
+    imageUrl: profileInfo?.farcasterSocial?.profileImage || null,
+    hasToken: !!subjectToken,
+    currentPrice: isNaN(currentPrice) ? null : currentPrice,
+    holders: subjectToken ? formatHolderCount(subjectToken) : null,
+    powerboost,
+    weeklyChangePercent: history ? getPriceChangePercent(history) : null,
+  };
+}
+
+// "dwr vs v", "dwr, v" or "dwr v"; anything past the second user is ignored
+export function parseCompareInput(input: string): string[] {
+  return input
+    .split(/\s+vs\.?\s+|[,\s]+/i)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .slice(0, 2);
+}
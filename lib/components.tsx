@@ -0,0 +1,279 @@
+import type { Child } from 'hono/jsx';
+import type { DataSourceName } from './data-sources.js';
+import { DEFAULT_THEME, getBackgroundStyle, type Theme } from './theme.js';
+import { isDeadlineError, isUpstreamError, type UpstreamErrorKind } from './upstream.js';
+
+// Building blocks for the 1200x628 frame images. Every component takes an
+// optional theme and falls back to DEFAULT_THEME.
+
+type Themed = { theme?: Theme };
+
+// Full-size card on one of the theme's backgrounds
+export function CardBackground({
+  background,
+  theme = DEFAULT_THEME,
+  padding = '20px',
+  children,
+}: Themed & { background: string; padding?: string; children?: Child }) {
+  return (
+    <div style={{
+      ...getBackgroundStyle(background),
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      width: '1200px',
+      height: '628px',
+      padding,
+      boxSizing: 'border-box',
+      position: 'relative',
+      fontFamily: theme.fontFamily,
+    }}>
+      {children}
+    </div>
+  );
+}
+
+// A labelled figure, e.g. "Current Price / 7.21 MOXIE"
+export function StatCard({
+  label,
+  value,
+  valueColor,
+  theme = DEFAULT_THEME,
+}: Themed & { label: string; value: string; valueColor?: string }) {
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.statBackground,
+      padding: '10px',
+      margin: '5px',
+      borderRadius: '10px',
+      fontSize: '28px',
+      width: '300px',
+      height: '130px',
+      boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+    }}>
+      <div style={{ fontWeight: 'bold', color: theme.statTextColor }}>{label}</div>
+      <div style={{ color: valueColor ?? theme.statTextColor, fontSize: '32px' }}>{value}</div>
+    </div>
+  );
+}
+
+export function StatRow({ children }: { children?: Child }) {
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'row',
+      justifyContent: 'center',
+      alignItems: 'center',
+      width: '100%',
+    }}>
+      {children}
+    </div>
+  );
+}
+
+// Round profile or channel picture; shows the placeholder text without one
+export function ProfileAvatar({
+  imageUrl,
+  size = 180,
+  placeholder = 'No Image',
+  theme = DEFAULT_THEME,
+}: Themed & { imageUrl?: string | null; size?: number; placeholder?: string }) {
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      width: `${size}px`,
+      height: `${size}px`,
+      borderRadius: '50%',
+      overflow: 'hidden',
+      backgroundColor: theme.accentColor,
+      boxShadow: `0 0 20px 10px ${theme.glowColor}`,
+    }}>
+      {imageUrl ? (
+        <img
+          src={imageUrl}
+          width={size}
+          height={size}
+          style={{ width: '100%', height: '100%', objectFit: 'cover', borderRadius: '50%' }}
+        />
+      ) : (
+        <div style={{ display: 'flex', color: '#ffffff', fontSize: '24px' }}>
+          {placeholder}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Avatar over the card's title
+export function TokenHeader({
+  title,
+  imageUrl,
+  avatarSize = 180,
+  placeholder,
+  color,
+  theme = DEFAULT_THEME,
+}: Themed & { title: string; imageUrl?: string | null; avatarSize?: number; placeholder?: string; color?: string }) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+      <ProfileAvatar imageUrl={imageUrl} size={avatarSize} placeholder={placeholder} theme={theme} />
+      <div style={{
+        display: 'flex',
+        fontSize: '48px',
+        fontWeight: 'bold',
+        textAlign: 'center',
+        margin: '30px 0 20px',
+        color: color ?? theme.tokenTitleColor,
+        textShadow: `0 0 10px ${theme.glowColor}`,
+      }}>
+        {title}
+      </div>
+    </div>
+  );
+}
+
+// The /yourfantoken and /share card; children are drawn on top, e.g. badges.
+// currentPrice comes with its unit, e.g. "7.22 MOXIE" or "$0.0144"
+export function FanTokenCard({
+  title,
+  imageUrl,
+  currentPrice,
+  powerboost,
+  holders,
+  theme = DEFAULT_THEME,
+  children,
+}: Themed & {
+  title: string;
+  imageUrl?: string | null;
+  currentPrice: string;
+  powerboost: string;
+  holders: string;
+  children?: Child;
+}) {
+  return (
+    <CardBackground background={theme.tokenBackground} theme={theme}>
+      {children}
+      <TokenHeader title={title} imageUrl={imageUrl} theme={theme} />
+      <StatRow>
+        <StatCard label="Current Price" value={currentPrice} theme={theme} />
+        <StatCard label="Powerboost" value={powerboost} theme={theme} />
+        <StatCard label="Holders" value={holders} theme={theme} />
+      </StatRow>
+    </CardBackground>
+  );
+}
+
+// "3 of 12" badge in a card corner; total can be e.g. "12+" when only a lower bound is known
+export function PageIndicator({
+  current,
+  total,
+  theme = DEFAULT_THEME,
+}: Themed & { current: number; total: number | string }) {
+  return (
+    <div style={{
+      display: 'flex',
+      position: 'absolute',
+      bottom: '20px',
+      right: '20px',
+      fontSize: '24px',
+      color: theme.statTextColor,
+      backgroundColor: theme.statBackground,
+      padding: '10px',
+      borderRadius: '10px',
+      fontWeight: 'bold',
+    }}>
+      {current} of {total}
+    </div>
+  );
+}
+
+// Small label pinned to a card corner, e.g. the holdings view or wallet
+export function CornerBadge({
+  position,
+  theme = DEFAULT_THEME,
+  children,
+}: Themed & { position: 'top-left' | 'bottom-left'; children?: Child }) {
+  return (
+    <div style={{
+      display: 'flex',
+      position: 'absolute',
+      ...(position === 'top-left' ? { top: '20px' } : { bottom: '20px' }),
+      left: '20px',
+      fontSize: '22px',
+      color: theme.statTextColor,
+      backgroundColor: theme.statBackground,
+      padding: '8px 12px',
+      borderRadius: '10px',
+    }}>
+      {children}
+    </div>
+  );
+}
+
+// A title with a line of explanation underneath on the plain screen background
+export function MessageScreen({
+  title,
+  message,
+  messageColor,
+  theme = DEFAULT_THEME,
+}: Themed & { title: Child; message?: Child; messageColor?: string }) {
+  return (
+    <CardBackground background={theme.screenBackground} theme={theme}>
+      <div style={{ display: 'flex', fontSize: '56px', color: theme.textColor, textAlign: 'center', marginBottom: '20px' }}>
+        {title}
+      </div>
+      {message && (
+        <div style={{ display: 'flex', fontSize: '32px', color: messageColor ?? theme.mutedColor, textAlign: 'center', padding: '0 60px' }}>
+          {message}
+        </div>
+      )}
+    </CardBackground>
+  );
+}
+
+const UPSTREAM_SOURCE_LABELS: Record<DataSourceName, string> = {
+  moxie: 'Moxie',
+  airstack: 'Airstack',
+  vesting: 'Moxie vesting',
+};
+
+const UPSTREAM_ERROR_TITLES: Record<UpstreamErrorKind, string> = {
+  timeout: 'is responding slowly',
+  unavailable: 'is unavailable',
+  rejected: "couldn't answer",
+  'circuit-open': 'is having problems',
+};
+
+const UPSTREAM_ERROR_HINTS: Record<UpstreamErrorKind, string> = {
+  timeout: 'Try again in a few seconds.',
+  unavailable: 'Try again in a minute.',
+  rejected: 'This one is on us and has been logged.',
+  'circuit-open': 'Requests are paused briefly while it recovers. Try again in a minute.',
+};
+
+// A message with a hint underneath. Given the caught error, it names the API
+// that failed and how, so a slow upstream doesn't look like a bug in the frame.
+export function ErrorScreen({
+  message,
+  hint,
+  error,
+  theme = DEFAULT_THEME,
+}: Themed & { message: string; hint?: string; error?: unknown }) {
+  let title = message;
+  let detail = hint ?? (error !== undefined ? 'Please try again.' : undefined);
+  if (isUpstreamError(error)) {
+    title = `${UPSTREAM_SOURCE_LABELS[error.source]} ${UPSTREAM_ERROR_TITLES[error.kind]}`;
+    detail = UPSTREAM_ERROR_HINTS[error.kind];
+  } else if (isDeadlineError(error)) {
+    title = 'This is taking too long';
+    detail = 'The data sources are slow right now. Try again in a few seconds.';
+  }
+
+  return <MessageScreen title={title} message={detail} theme={theme} />;
+}
@@ -0,0 +1,174 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { GraphQLClient } from 'graphql-request';
+import { createMemoryCacheStore, withCache, type CacheStore } from './cache.js';
+import { createLogger } from './logger.js';
+import { withResilience } from './upstream.js';
+
+export type DataSourceName = 'moxie' | 'airstack' | 'vesting';
+
+export type QueryVariables = Record<string, unknown>;
+
+export interface RequestOptions {
+  // Aborts the HTTP request, e.g. when an attempt times out
+  signal?: AbortSignal;
+}
+
+// A single upstream GraphQL endpoint. Every fetcher goes through one of these
+// instead of building its own GraphQLClient, so the backend can be swapped.
+export interface DataSource {
+  name: DataSourceName;
+  request<T = any>(query: string, variables?: QueryVariables, options?: RequestOptions): Promise<T>;
+}
+
+export interface DataProvider {
+  moxie: DataSource;
+  airstack: DataSource;
+  vesting: DataSource;
+}
+
+const log = createLogger('data-sources');
+
+const MOXIE_API_URL = "https://api.studio.thegraph.com/query/23537/moxie_protocol_stats_mainnet/version/latest";
+const MOXIE_VESTING_API_URL = "https://api.studio.thegraph.com/query/23537/moxie_vesting_mainnet/version/latest";
+const AIRSTACK_API_URL = 'https://api.airstack.xyz/gql';
+
+function createGraphQLSource(name: DataSourceName, url: string, headers?: Record<string, string>): DataSource {
+  const graphQLClient = new GraphQLClient(url, headers ? { headers } : undefined);
+
+  return {
+    name,
+    request: <T>(query: string, variables?: QueryVariables, options?: RequestOptions) =>
+      graphQLClient.request<T>({ document: query, variables, signal: options?.signal }),
+  };
+}
+
+export function createLiveProvider(airstackApiKey: string): DataProvider {
+  return {
+    moxie: createGraphQLSource('moxie', MOXIE_API_URL),
+    airstack: createGraphQLSource('airstack', AIRSTACK_API_URL, {
+      'Authorization': airstackApiKey,
+    }),
+    vesting: createGraphQLSource('vesting', MOXIE_VESTING_API_URL),
+  };
+}
+
+// A fixture file is either the raw `data` of a response, or a list of cases
+// matched in order against the request variables (a case without variables
+// matches anything).
+interface FixtureCase {
+  variables?: QueryVariables;
+  data: unknown;
+}
+
+export function matchOperationName(query: string): string | null {
+  return query.match(/\b(?:query|mutation)\s+(\w+)/)?.[1] ?? null;
+}
+
+export function getOperationName(query: string): string {
+  const operationName = matchOperationName(query);
+  if (!operationName) {
+    throw new Error('Fixture queries must have an operation name');
+  }
+  return operationName;
+}
+
+function variablesMatch(expected: QueryVariables, actual: QueryVariables): boolean {
+  return Object.entries(expected).every(
+    ([key, value]) => JSON.stringify(value) === JSON.stringify(actual[key])
+  );
+}
+
+function createFixtureSource(name: DataSourceName, fixtureDir: string): DataSource {
+  return {
+    name,
+    async request<T>(query: string, variables: QueryVariables = {}): Promise<T> {
+      const operationName = getOperationName(query);
+      const file = path.join(fixtureDir, name, `${operationName}.json`);
+
+      let contents: string;
+      try {
+        contents = await readFile(file, 'utf8');
+      } catch {
+        throw new Error(`No ${name} fixture for operation ${operationName} (expected ${file})`);
+      }
+
+      const fixture = JSON.parse(contents);
+      if (!Array.isArray(fixture)) {
+        return fixture as T;
+      }
+
+      const match = (fixture as FixtureCase[]).find(
+        (fixtureCase) => !fixtureCase.variables || variablesMatch(fixtureCase.variables, variables)
+      );
+      if (!match) {
+        throw new Error(`No ${name} fixture case for ${operationName} matches ${JSON.stringify(variables)}`);
+      }
+      return match.data as T;
+    },
+  };
+}
+
+export function createFixtureProvider(fixtureDir: string): DataProvider {
+  return {
+    moxie: createFixtureSource('moxie', fixtureDir),
+    airstack: createFixtureSource('airstack', fixtureDir),
+    vesting: createFixtureSource('vesting', fixtureDir),
+  };
+}
+
+// Times every query that actually reaches the backend; cache hits never get here
+function withQueryLogging(source: DataSource): DataSource {
+  return {
+    name: source.name,
+    async request<T>(query: string, variables?: QueryVariables, options?: RequestOptions): Promise<T> {
+      const operation = matchOperationName(query) ?? 'anonymous';
+      const start = performance.now();
+      try {
+        const data = await source.request<T>(query, variables, options);
+        log.info('Upstream query', { source: source.name, operation, durationMs: Math.round(performance.now() - start) });
+        return data;
+      } catch (error) {
+        log.warn('Upstream query failed', { source: source.name, operation, durationMs: Math.round(performance.now() - start), error });
+        throw error;
+      }
+    },
+  };
+}
+
+let provider: DataProvider | null = null;
+let cacheStore: CacheStore = createMemoryCacheStore();
+
+// DATA_SOURCE=fixture serves every query from JSON files under FIXTURE_DIR
+// (default ./fixtures) so the frames run without network access. Every query
+// gets the source's timeout, retry and circuit breaker policy, and responses
+// are cached per source unless CACHE_DISABLED=true.
+export function getDataProvider(): DataProvider {
+  if (!provider) {
+    let baseProvider: DataProvider;
+    if (process.env.DATA_SOURCE === 'fixture') {
+      const fixtureDir = path.resolve(process.env.FIXTURE_DIR || 'fixtures');
+      log.info('Using fixture data provider', { fixtureDir });
+      baseProvider = createFixtureProvider(fixtureDir);
+    } else {
+      baseProvider = createLiveProvider(process.env.AIRSTACK_API_KEY || '');
+    }
+    baseProvider = withResilience({
+      moxie: withQueryLogging(baseProvider.moxie),
+      airstack: withQueryLogging(baseProvider.airstack),
+      vesting: withQueryLogging(baseProvider.vesting),
+    });
+    provider = process.env.CACHE_DISABLED === 'true' ? baseProvider : withCache(baseProvider, cacheStore);
+  }
+  return provider;
+}
+
+// Swap in a shared store (e.g. createKeyValueCacheStore) before the first request
+export function setCacheStore(store: CacheStore): void {
+  cacheStore = store;
+  provider = null;
+}
+
+export function setDataProvider(dataProvider: DataProvider | null): void {
+  provider = dataProvider;
+}
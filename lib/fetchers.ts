@@ -0,0 +1,849 @@
+import { gql } from "graphql-request";
+import { getDataProvider } from './data-sources.js';
+import { createLogger } from './logger.js';
+import { rethrowUpstreamError, withFallback } from './upstream.js';
+import type { ChannelInfo, FanTokenAddress, HoldingWallet, PortfolioEntry, PricePoint, PriceWindow, ProfileInfo, SubjectToken, SubjectTokenSnapshot, TokenHolding, TokenInfo, TradeOrder, VestingContract } from './types.js';
+
+const log = createLogger('fetchers');
+
+export async function getProfileInfo(fid: string): Promise<ProfileInfo | null> {
+  return getProfileInfoForIdentity(`fc_fid:${fid}`);
+}
+
+// Accepts any Airstack identity (fc_fid:N, 0x address, ENS name)
+export async function getProfileInfoForIdentity(identity: string): Promise<ProfileInfo | null> {
+  const { airstack } = getDataProvider();
+
+  const query = gql`
+    query GetProfileInfo($identity: Identity!) {
+      Wallet(input: { identity: $identity }) {
+        primaryDomain {
+          name
+          avatar
+        }
+      }
+      farcasterSocials: Socials(
+        input: {
+          filter: { identity: { _eq: $identity }, dappName: { _eq: farcaster } }
+          blockchain: ethereum
+          order: { followerCount: DESC }
+        }
+      ) {
+        Social {
+          profileName
+          profileDisplayName
+          profileHandle
+          profileImage
+          profileBio
+          followerCount
+          followingCount
+          farcasterScore {
+            farScore
+          }
+        }
+      }
+    }
+  `;
+
+  const variables = { identity };
+
+  try {
+    const data = await airstack.request<any>(query, variables);
+    log.debug('Profile response', { identity, data });
+
+    if (!data.farcasterSocials.Social[0]) {
+      throw new Error('Incomplete data in the response');
+    }
+
+    const social = data.farcasterSocials.Social[0];
+
+    return {
+      primaryDomain: data.Wallet.primaryDomain,
+      farcasterSocial: {
+        profileName: social.profileName,
+        profileDisplayName: social.profileDisplayName,
+        profileImage: social.profileImage,
+        profileBio: social.profileBio,
+        followerCount: social.followerCount,
+        followingCount: social.followingCount,
+        farcasterScore: social.farcasterScore,
+      },
+    };
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error fetching profile info', { identity, error });
+    return null;
+  }
+}
+
+export async function getPowerboostScore(fid: string): Promise<number | null> {
+  const { airstack } = getDataProvider();
+
+  const query = gql`
+    query GetPowerboostScore($userId: String!) {
+      Socials(
+        input: {
+          filter: {
+            dappName: {_eq: farcaster},
+            userId: {_eq: $userId}
+          },
+          blockchain: ethereum
+        }
+      ) {
+        Social {
+          farcasterScore {
+            powerBoost
+          }
+        }
+      }
+    }
+  `;
+
+  const variables = {
+    userId: fid
+  };
+
+  try {
+    const data = await airstack.request<any>(query, variables);
+    log.debug('Powerboost response', { fid, data });
+
+    if (data.Socials.Social && data.Socials.Social[0]?.farcasterScore?.powerBoost) {
+      return data.Socials.Social[0].farcasterScore.powerBoost;
+    } else {
+      log.info('No powerboost score found', { fid });
+      return null;
+    }
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error fetching powerboost score', { fid, error });
+    return null;
+  }
+}
+
+export async function getFanTokenAddressFromFID(fid: string): Promise<FanTokenAddress | null> {
+  return getFanTokenAddressFromSymbol(`fid:${fid}`);
+}
+
+// User tokens are symbolled fid:N and channel tokens cid:<channel id>
+export async function getFanTokenAddressFromSymbol(symbol: string): Promise<FanTokenAddress | null> {
+  const { moxie } = getDataProvider();
+
+  const query = gql`
+    query GetFanTokenAddress($symbol: String) {
+      subjectTokens(where: {symbol: $symbol}) {
+        address: id
+        name
+        symbol
+        decimals
+      }
+    }
+  `;
+
+  const variables = {
+    symbol
+  };
+
+  try {
+    const data = await moxie.request<any>(query, variables);
+    log.debug('Fan token address response', { symbol, data });
+
+    if (!data.subjectTokens || data.subjectTokens.length === 0) {
+      log.info('No fan token found', { symbol });
+      return null;
+    }
+
+    return data.subjectTokens[0];
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error fetching fan token address', { symbol, error });
+    return null;
+  }
+}
+
+export async function getFanTokenInfo(fid: string): Promise<TokenInfo | null> {
+  return getFanTokenInfoForSymbol(`fid:${fid}`);
+}
+
+// The largest page the subgraph returns
+const TOKEN_INFO_HOLDERS = 1000;
+
+export async function getFanTokenInfoForSymbol(symbol: string): Promise<TokenInfo | null> {
+  const { moxie } = getDataProvider();
+
+  // First, get the fan token address from the symbol
+  const tokenAddressInfo = await getFanTokenAddressFromSymbol(symbol);
+  
+  if (!tokenAddressInfo) {
+    log.info('No fan token found', { symbol });
+    return null;
+  }
+
+  const query = gql`
+    query GetFanTokenInfo($fanTokenAddress: ID) {
+      subjectTokens(where: { id: $fanTokenAddress }) {
+        currentPriceInMoxie
+        id
+        name
+        symbol
+        decimals
+        totalSupply
+        buySideVolume
+        sellSideVolume
+      }
+    }
+  `;
+
+  const variables = {
+    fanTokenAddress: tokenAddressInfo.address.toLowerCase()
+  };
+
+  try {
+    const data = await moxie.request<any>(query, variables);
+    log.debug('Fan token info response', { symbol, data });
+
+    if (!data.subjectTokens || data.subjectTokens.length === 0) {
+      log.info('No fan token information found', { symbol, address: tokenAddressInfo.address });
+      return null;
+    }
+
+    // Cards only show a holder count, so a single page of the largest holders
+    // is enough; a full page reads as "1K+". /holders loads its own pages.
+    const subjectTokens: SubjectToken[] = await Promise.all(
+      data.subjectTokens.map(async (subjectToken: Omit<SubjectToken, 'portfolio'>) => {
+        const holders = await getTopFanTokenHolders(subjectToken.id, TOKEN_INFO_HOLDERS);
+        return { ...subjectToken, portfolio: holders, portfolioTruncated: holders.length === TOKEN_INFO_HOLDERS };
+      })
+    );
+
+    return { subjectTokens };
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error fetching fan token info', { symbol, error });
+    return null;
+  }
+}
+
+// The Graph caps skip at 5000, so lists that can run long are paged by id:
+// each page asks for ids after the last one seen. Pages are deduplicated by
+// id and stop at maxPages so a huge list can't stall a frame.
+async function fetchPagesById<T extends { id: string }>(
+  fetchPage: (cursor: string, first: number) => Promise<T[]>,
+  maxPages: number,
+  pageSize: number = 1000
+): Promise<{ items: T[]; truncated: boolean }> {
+  const items = new Map<string, T>();
+  let cursor = '';
+
+  for (let page = 0; page < maxPages; page++) {
+    const pageItems = await fetchPage(cursor, pageSize);
+    for (const item of pageItems) {
+      items.set(item.id, item);
+    }
+    if (pageItems.length < pageSize) {
+      return { items: [...items.values()], truncated: false };
+    }
+    cursor = pageItems[pageItems.length - 1].id;
+  }
+  return { items: [...items.values()], truncated: true };
+}
+
+function compareBalancesDesc(a: { balance: string }, b: { balance: string }): number {
+  const balanceA = BigInt(a.balance);
+  const balanceB = BigInt(b.balance);
+  return balanceA === balanceB ? 0 : balanceA > balanceB ? -1 : 1;
+}
+
+// Every holder for a full scan, largest balances first; stops after maxPages
+// pages of 1000 holders
+export async function getFanTokenHolders(
+  tokenAddress: string,
+  maxPages: number = 10
+): Promise<{ holders: PortfolioEntry[]; truncated: boolean }> {
+  const { moxie } = getDataProvider();
+
+  const query = gql`
+    query GetFanTokenHolders($subjectToken: String!, $cursor: ID!, $first: Int!) {
+      portfolios(
+        where: { subjectToken: $subjectToken, id_gt: $cursor }
+        orderBy: id
+        orderDirection: asc
+        first: $first
+      ) {
+        id
+        balance
+        user {
+          id
+        }
+      }
+    }
+  `;
+
+  const { items, truncated } = await fetchPagesById<PortfolioEntry & { id: string }>(async (cursor, first) => {
+    const data = await moxie.request<any>(query, { subjectToken: tokenAddress.toLowerCase(), cursor, first });
+    return data.portfolios || [];
+  }, maxPages);
+
+  if (truncated) {
+    log.warn('Holder page limit reached; holder list is partial', { tokenAddress, count: items.length });
+  }
+  const holders = items
+    .map(({ balance, user }) => ({ balance, user }))
+    .sort(compareBalancesDesc);
+  return { holders, truncated };
+}
+
+// The Graph refuses a skip above 5000, so a leaderboard ranked by balance
+// ends there; getFanTokenHolders pages through everyone by id instead
+export const TOP_HOLDERS_MAX_SKIP = 5000;
+
+// One page of holders ranked by balance, largest first
+export async function getTopFanTokenHolders(
+  tokenAddress: string,
+  first: number,
+  skip: number = 0
+): Promise<PortfolioEntry[]> {
+  const { moxie } = getDataProvider();
+
+  const query = gql`
+    query GetTopFanTokenHolders($subjectToken: String!, $first: Int!, $skip: Int!) {
+      portfolios(
+        where: { subjectToken: $subjectToken }
+        orderBy: balance
+        orderDirection: desc
+        first: $first
+        skip: $skip
+      ) {
+        balance
+        user {
+          id
+        }
+      }
+    }
+  `;
+
+  const variables = { subjectToken: tokenAddress.toLowerCase(), first, skip: Math.min(skip, TOP_HOLDERS_MAX_SKIP) };
+  const data = await moxie.request<any>(query, variables);
+  return data.portfolios || [];
+}
+
+export async function getChannelInfo(channelId: string): Promise<ChannelInfo | null> {
+  const { airstack } = getDataProvider();
+
+  const query = gql`
+    query GetChannelInfo($channelId: String!) {
+      FarcasterChannels(
+        input: { filter: { channelId: { _eq: $channelId } }, blockchain: ALL }
+      ) {
+        FarcasterChannel {
+          channelId
+          name
+          description
+          imageUrl
+          followerCount
+        }
+      }
+    }
+  `;
+
+  const variables = { channelId };
+
+  try {
+    const data = await airstack.request<any>(query, variables);
+    log.debug('Channel response', { channelId, data });
+
+    const channel = data.FarcasterChannels?.FarcasterChannel?.[0];
+    if (!channel) {
+      log.info('No Farcaster channel found', { channelId });
+      return null;
+    }
+
+    return {
+      channelId: channel.channelId,
+      name: channel.name,
+      description: channel.description,
+      imageUrl: channel.imageUrl,
+      followerCount: channel.followerCount,
+    };
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error fetching channel info', { channelId, error });
+    return null;
+  }
+}
+
+// Empty when the FID has no Farcaster profile
+export async function getFarcasterAddressesFromFID(fid: string): Promise<string[]> {
+  const { airstack } = getDataProvider();
+
+  const query = gql`
+    query GetFarcasterAddresses($identity: Identity!) {
+      Socials(
+        input: {
+          filter: { dappName: { _eq: farcaster }, identity: { _eq: $identity } }
+          blockchain: ethereum
+        }
+      ) {
+        Social {
+          userAddress
+          userAssociatedAddresses
+        }
+      }
+    }
+  `;
+
+  const variables = {
+    identity: `fc_fid:${fid}`
+  };
+
+  try {
+    const data = await airstack.request<any>(query, variables);
+    log.debug('Farcaster addresses response', { fid, data });
+
+    if (!data.Socials || !data.Socials.Social || data.Socials.Social.length === 0) {
+      log.info('No Farcaster profile found', { fid });
+      return [];
+    }
+
+    const social = data.Socials.Social[0];
+    const addresses = [social.userAddress, ...(social.userAssociatedAddresses || [])];
+    return [...new Set(addresses)]; // Remove duplicates
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error fetching Farcaster addresses', { fid, error });
+    return [];
+  }
+}
+
+// Accepts a Farcaster handle (with or without @), fid:N or #N, or a 0x address.
+// Handles can be all digits, so a bare number is looked up as a handle first
+// and only taken as an FID when no such handle exists.
+export async function resolveFidFromInput(input: string): Promise<string | null> {
+  const { airstack } = getDataProvider();
+  const value = input.trim();
+
+  const fidMatch = value.match(/^(?:fid:|#)(\d+)$/i);
+  if (fidMatch) {
+    return fidMatch[1];
+  }
+  const bareFid = /^\d+$/.test(value) ? value : null;
+
+  const identity = /^0x[0-9a-f]{40}$/i.test(value)
+    ? value.toLowerCase()
+    : `fc_fname:${value.replace(/^@/, '').toLowerCase()}`;
+
+  const query = gql`
+    query ResolveFarcasterUser($identity: Identity!) {
+      Socials(
+        input: {
+          filter: { dappName: { _eq: farcaster }, identity: { _eq: $identity } }
+          blockchain: ethereum
+        }
+      ) {
+        Social {
+          userId
+        }
+      }
+    }
+  `;
+
+  const variables = { identity };
+
+  try {
+    const data = await airstack.request<any>(query, variables);
+    log.debug('Farcaster user lookup response', { input: value, data });
+
+    const userId = data.Socials?.Social?.[0]?.userId;
+    if (!userId) {
+      log.info('No Farcaster user found', { input: value, fallbackFid: bareFid });
+      return bareFid;
+    }
+
+    return userId.toString();
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error resolving Farcaster user', { input: value, error });
+    return null;
+  }
+}
+
+export async function getVestingContracts(beneficiaryAddresses: string[]): Promise<VestingContract[]> {
+  const { vesting } = getDataProvider();
+
+  const query = gql`
+    query GetVestingContracts($beneficiaries: [Bytes!]) {
+      tokenLockWallets(where: {beneficiary_in: $beneficiaries}) {
+        address: id
+        beneficiary
+        managedAmount
+        tokensReleased
+        startTime
+        endTime
+        periods
+        vestingCliffTime
+      }
+    }
+  `;
+
+  const variables = {
+    beneficiaries: beneficiaryAddresses.map(address => address.toLowerCase())
+  };
+
+  try {
+    const data = await vesting.request<any>(query, variables);
+    log.debug('Vesting contracts response', { data });
+
+    if (!data.tokenLockWallets || data.tokenLockWallets.length === 0) {
+      log.info('No vesting contract found', { addresses: beneficiaryAddresses });
+      return [];
+    }
+    return data.tokenLockWallets;
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error fetching vesting contracts', { error });
+    return [];
+  }
+}
+
+// A user can be the beneficiary of several lock wallets, one per grant
+export async function getVestingContractAddresses(beneficiaryAddresses: string[]): Promise<string[]> {
+  const contracts = await getVestingContracts(beneficiaryAddresses);
+  return contracts.map(contract => contract.address);
+}
+
+export async function getVestingContractsForFID(fid: string): Promise<VestingContract[]> {
+  const userAddresses = await getFarcasterAddressesFromFID(fid);
+  return getVestingContracts(userAddresses);
+}
+
+export async function getOwnedFanTokens(addresses: string[], maxPagesPerAddress: number = 5): Promise<TokenHolding[] | null> {
+  const { moxie } = getDataProvider();
+
+  const query = gql`
+    query GetOwnedFanTokens($user: String!, $cursor: ID!, $first: Int!) {
+      portfolios(
+        where: { user: $user, id_gt: $cursor }
+        orderBy: id
+        orderDirection: asc
+        first: $first
+      ) {
+        id
+        balance
+        buyVolume
+        sellVolume
+        subjectToken {
+          name
+          symbol
+          currentPriceInMoxie
+          decimals
+        }
+      }
+    }
+  `;
+
+  try {
+    // Each wallet is paged on its own so one large wallet can't crowd out
+    // the others, and an address listed twice is only fetched once
+    const uniqueAddresses = [...new Set(addresses.map(address => address.toLowerCase()))];
+    const perAddress = await Promise.all(uniqueAddresses.map(async address => {
+      const { items, truncated } = await fetchPagesById<TokenHolding & { id: string }>(async (cursor, first) => {
+        const data = await moxie.request<any>(query, { user: address, cursor, first });
+        return data.portfolios || [];
+      }, maxPagesPerAddress);
+
+      if (truncated) {
+        log.warn('Holdings page limit reached; wallet holdings are partial', { address, count: items.length });
+      }
+      return items.map(({ id: _id, ...holding }) => ({ ...holding, address }));
+    }));
+
+    const allTokens: TokenHolding[] = perAddress.flat();
+    log.info('Fetched owned tokens', { addresses: uniqueAddresses.length, count: allTokens.length });
+
+    if (allTokens.length === 0) {
+      log.info('No fan tokens found', { addresses });
+      return null;
+    }
+
+    return allTokens.sort(compareBalancesDesc);
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error fetching owned fan tokens', { error });
+    return null;
+  }
+}
+
+// The user's custody, verified and vesting addresses
+// The custody address comes first in Airstack's list, then verified addresses
+export async function getHoldingWalletsForFID(fid: string): Promise<HoldingWallet[]> {
+  const userAddresses = await getFarcasterAddressesFromFID(fid);
+  log.debug('User addresses', { fid, addresses: userAddresses });
+  if (userAddresses.length === 0) {
+    return [];
+  }
+
+  // Lock wallets only add holdings, so while the vesting subgraph is failing
+  // the custody and verified wallets are still listed
+  const vestingContractAddresses = await withFallback(getVestingContractAddresses(userAddresses), []);
+  log.debug('Vesting contract addresses', { fid, addresses: vestingContractAddresses });
+
+  const wallets: HoldingWallet[] = userAddresses.map((address, i) => ({
+    address: address.toLowerCase(),
+    kind: i === 0 ? 'custody' : 'verified',
+  }));
+  for (const address of vestingContractAddresses) {
+    wallets.push({ address: address.toLowerCase(), kind: 'vesting' });
+  }
+  return wallets;
+}
+
+export async function getHoldingAddressesForFID(fid: string): Promise<string[]> {
+  const wallets = await getHoldingWalletsForFID(fid);
+  return wallets.map(wallet => wallet.address);
+}
+
+// Aggregates holdings across all of the user's addresses
+export async function getOwnedFanTokensForFID(fid: string): Promise<TokenHolding[]> {
+  const allAddresses = await getHoldingAddressesForFID(fid);
+  if (allAddresses.length === 0) {
+    return [];
+  }
+
+  // Fetch tokens for all addresses
+  return await getOwnedFanTokens(allAddresses) || [];
+}
+
+// Newest first; capped since frames page through at most a few screens
+export async function getTokenTrades(addresses: string[], symbol: string, first: number = 100): Promise<TradeOrder[]> {
+  const { moxie } = getDataProvider();
+
+  const query = gql`
+    query GetTokenTrades($userAddresses: [String!], $symbol: String!, $first: Int!) {
+      orders(
+        where: { user_in: $userAddresses, subjectToken_: { symbol: $symbol } }
+        orderBy: blockTimestamp
+        orderDirection: desc
+        first: $first
+      ) {
+        orderType
+        subjectAmount
+        protocolTokenAmount
+        price
+        blockTimestamp
+        user {
+          id
+        }
+      }
+    }
+  `;
+
+  const variables = {
+    userAddresses: addresses.map(address => address.toLowerCase()),
+    symbol,
+    first
+  };
+
+  try {
+    const data = await moxie.request<any>(query, variables);
+    log.info('Fetched token trades', { symbol, count: data.orders?.length ?? 0 });
+    return data.orders || [];
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error fetching token trades', { symbol, error });
+    return [];
+  }
+}
+
+// Unix time of the latest buy order per token symbol across the given addresses
+export async function getLastPurchaseTimes(addresses: string[]): Promise<Record<string, number>> {
+  const { moxie } = getDataProvider();
+
+  const query = gql`
+    query GetLastPurchases($userAddresses: [String!]) {
+      orders(
+        where: { user_in: $userAddresses, orderType: BUY }
+        orderBy: blockTimestamp
+        orderDirection: desc
+        first: 1000
+      ) {
+        blockTimestamp
+        subjectToken {
+          symbol
+        }
+      }
+    }
+  `;
+
+  const variables = {
+    userAddresses: addresses.map(address => address.toLowerCase())
+  };
+
+  try {
+    const data = await moxie.request<any>(query, variables);
+    log.info('Fetched buy orders', { count: data.orders?.length ?? 0 });
+
+    // Orders come newest first, so the first one seen per symbol is the latest
+    const lastPurchases: Record<string, number> = {};
+    for (const order of data.orders || []) {
+      const symbol = order.subjectToken.symbol;
+      if (lastPurchases[symbol] === undefined) {
+        lastPurchases[symbol] = parseInt(order.blockTimestamp);
+      }
+    }
+    return lastPurchases;
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error fetching buy orders', { error });
+    return {};
+  }
+}
+
+// Current price for each symbol, in one request; symbols without a token are left out
+export async function getSubjectTokenPrices(symbols: string[]): Promise<Record<string, number>> {
+  const { moxie } = getDataProvider();
+
+  const query = gql`
+    query GetSubjectTokenPrices($symbols: [String!]) {
+      subjectTokens(where: { symbol_in: $symbols }, first: 1000) {
+        symbol
+        currentPriceInMoxie
+      }
+    }
+  `;
+
+  const variables = { symbols };
+
+  try {
+    const data = await moxie.request<any>(query, variables);
+    log.info('Fetched token prices', { found: data.subjectTokens?.length ?? 0, requested: symbols.length });
+
+    const prices: Record<string, number> = {};
+    for (const token of data.subjectTokens || []) {
+      const price = parseFloat(token.currentPriceInMoxie);
+      if (!isNaN(price)) {
+        prices[token.symbol] = price;
+      }
+    }
+    return prices;
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error fetching token prices', { error });
+    return {};
+  }
+}
+
+const PRICE_WINDOW_SECONDS: Record<PriceWindow, number> = {
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+  '30d': 30 * 24 * 60 * 60,
+};
+
+export async function getFanTokenPriceHistory(tokenAddress: string, window: PriceWindow): Promise<PricePoint[] | null> {
+  const { moxie } = getDataProvider();
+
+  // Hourly snapshots give enough resolution for a week; a month uses daily ones
+  const query = window === '30d' ? gql`
+    query GetSubjectTokenDailySnapshots($subjectToken: String!, $since: BigInt!) {
+      snapshots: subjectTokenDailySnapshots(
+        where: { subjectToken: $subjectToken, endTimestamp_gt: $since }
+        orderBy: endTimestamp
+        orderDirection: asc
+        first: 1000
+      ) {
+        endTimestamp
+        endPrice
+      }
+    }
+  ` : gql`
+    query GetSubjectTokenHourlySnapshots($subjectToken: String!, $since: BigInt!) {
+      snapshots: subjectTokenHourlySnapshots(
+        where: { subjectToken: $subjectToken, endTimestamp_gt: $since }
+        orderBy: endTimestamp
+        orderDirection: asc
+        first: 1000
+      ) {
+        endTimestamp
+        endPrice
+      }
+    }
+  `;
+
+  // Round the window start to 5 minutes so repeat requests share a cache key
+  const now = Math.floor(Date.now() / 1000 / 300) * 300;
+  const variables = {
+    subjectToken: tokenAddress.toLowerCase(),
+    since: (now - PRICE_WINDOW_SECONDS[window]).toString()
+  };
+
+  try {
+    const data = await moxie.request<any>(query, variables);
+    log.info('Fetched price snapshots', { tokenAddress, window, count: data.snapshots?.length ?? 0 });
+
+    if (!data.snapshots || data.snapshots.length === 0) {
+      log.info('No price history found', { tokenAddress, window });
+      return null;
+    }
+
+    return data.snapshots
+      .map((snapshot: { endTimestamp: string; endPrice: string }) => ({
+        timestamp: parseInt(snapshot.endTimestamp),
+        price: parseFloat(snapshot.endPrice),
+      }))
+      .filter((point: PricePoint) => !isNaN(point.timestamp) && !isNaN(point.price));
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error fetching price history', { tokenAddress, window, error });
+    return null;
+  }
+}
+
+// Hourly snapshots for every token traded in the window, for ranking. Only
+// hours with trades have a snapshot, so a few pages cover a day.
+export async function getRecentHourlySnapshots(hours: number = 24, maxPages: number = 5): Promise<SubjectTokenSnapshot[]> {
+  const { moxie } = getDataProvider();
+
+  const query = gql`
+    query GetRecentHourlySnapshots($since: BigInt!, $cursor: ID!, $first: Int!) {
+      subjectTokenHourlySnapshots(
+        where: { startTimestamp_gte: $since, id_gt: $cursor }
+        orderBy: id
+        orderDirection: asc
+        first: $first
+      ) {
+        id
+        startTimestamp
+        startPrice
+        endPrice
+        hourlyVolume
+        startUniqueHolders
+        endUniqueHolders
+        subjectToken {
+          id
+          name
+          symbol
+          currentPriceInMoxie
+        }
+      }
+    }
+  `;
+
+  // Round to the hour so every request in that hour shares a cache key
+  const now = Math.floor(Date.now() / 1000 / 3600) * 3600;
+  const since = (now - hours * 3600).toString();
+
+  try {
+    const { items: snapshots, truncated } = await fetchPagesById<SubjectTokenSnapshot>(async (cursor, first) => {
+      const data = await moxie.request<any>(query, { since, cursor, first });
+      return data.subjectTokenHourlySnapshots || [];
+    }, maxPages);
+
+    if (truncated) {
+      log.warn('Hourly snapshot page limit reached; trending figures may be partial', { count: snapshots.length });
+    }
+    log.info('Fetched hourly snapshots', { hours, count: snapshots.length });
+    return snapshots;
+  } catch (error) {
+    rethrowUpstreamError(error);
+    log.error('Error fetching hourly snapshots', { hours, error });
+    return [];
+  }
+}
@@ -0,0 +1,166 @@
+import { formatUnits } from 'ethers';
+import type { SubjectToken } from './types.js';
+
+// Number formatting for frames, share texts and alerts. Raw on-chain amounts
+// (wei strings) are scaled with exact integer arithmetic and Intl formats the
+// resulting decimal string, so no digits are lost to floating point before
+// rounding.
+
+export const MOXIE_DECIMALS = 18;
+
+export interface AmountFormatOptions {
+  // Digits after the decimal point, always shown (default 2)
+  fractionDigits?: number;
+  // 1.50K instead of 1,500.00 (default true)
+  compact?: boolean;
+  // Prefix gains with "+"
+  signed?: boolean;
+  // Defaults to NUMBER_LOCALE, then en-US
+  locale?: string;
+}
+
+type Numeric = string | number | bigint | null | undefined;
+
+// BigDecimal fields from the subgraph, e.g. "7.215" or "1.2E-7"
+const DECIMAL_PATTERN = /^[+-]?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+
+function getDefaultLocale(): string {
+  return process.env.NUMBER_LOCALE || 'en-US';
+}
+
+// Intl.NumberFormat is slow to construct, so each configuration is built once
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = `${locale}:${JSON.stringify(options)}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, options);
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+// A raw integer amount (wei string or bigint), or null when it isn't one
+export function parseRawAmount(raw: Numeric): bigint | null {
+  if (raw === null || raw === undefined) {
+    return null;
+  }
+  try {
+    return BigInt(raw);
+  } catch {
+    return null;
+  }
+}
+
+// Exact decimal string for a raw amount, e.g. "1500000000000000000" → "1.5"
+export function toDecimalString(raw: Numeric, decimals: number = MOXIE_DECIMALS): string | null {
+  const value = parseRawAmount(raw);
+  return value === null ? null : formatUnits(value, decimals);
+}
+
+// For arithmetic such as P&L; display code should format the raw amount instead
+export function toUnits(raw: Numeric, decimals: number = MOXIE_DECIMALS): number {
+  const value = toDecimalString(raw, decimals);
+  return value === null ? 0 : Number(value);
+}
+
+// Sums raw amounts without converting them first
+export function sumRawAmounts(raws: Numeric[]): bigint {
+  return raws.reduce<bigint>((total, raw) => total + (parseRawAmount(raw) ?? 0n), 0n);
+}
+
+function formatDecimal(value: string | number, options: AmountFormatOptions): string {
+  const { fractionDigits = 2, compact = true, signed = false, locale = getDefaultLocale() } = options;
+  const formatter = getFormatter(locale, {
+    notation: compact ? 'compact' : 'standard',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+    signDisplay: signed ? 'exceptZero' : 'negative',
+  });
+
+  // A dust balance would otherwise round to a misleading 0.00
+  const smallest = 10 ** -fractionDigits;
+  const magnitude = Math.abs(Number(value));
+  if (magnitude > 0 && magnitude < smallest) {
+    const sign = Number(value) < 0 ? '-' : signed ? '+' : '';
+    return `<${sign}${getFormatter(locale, { maximumFractionDigits: fractionDigits }).format(smallest)}`;
+  }
+
+  return typeof value === 'string'
+    ? formatter.format(value as Intl.StringNumericLiteral)
+    : formatter.format(value);
+}
+
+// A raw on-chain amount in the token's smallest unit, e.g. a balance or buyVolume
+export function formatTokenAmount(raw: Numeric, decimals: number = MOXIE_DECIMALS, options: AmountFormatOptions = {}): string {
+  const value = toDecimalString(raw, decimals);
+  return value === null ? 'N/A' : formatDecimal(value, options);
+}
+
+// An amount already in whole units, e.g. currentPriceInMoxie or a computed P&L
+export function formatAmount(value: Numeric, options: AmountFormatOptions = {}): string {
+  if (typeof value === 'bigint') {
+    return formatDecimal(value.toString(), options);
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? formatDecimal(value, options) : 'N/A';
+  }
+  return value && DECIMAL_PATTERN.test(value) ? formatDecimal(value, options) : 'N/A';
+}
+
+// A change already in percent, e.g. 12.5 → "+12.5%"
+export function formatPercent(
+  value: number | null | undefined,
+  { fractionDigits = 1, signed = true, locale = getDefaultLocale() }: Omit<AmountFormatOptions, 'compact'> = {}
+): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) {
+    return 'N/A';
+  }
+  return getFormatter(locale, {
+    style: 'percent',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+    signDisplay: signed ? 'exceptZero' : 'negative',
+  }).format(value / 100);
+}
+
+// Whole things like followers or holders: 950, 12.3K
+export function formatCount(value: number | null | undefined, { compact = true, locale = getDefaultLocale() }: Pick<AmountFormatOptions, 'compact' | 'locale'> = {}): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) {
+    return 'N/A';
+  }
+  return getFormatter(locale, {
+    notation: compact ? 'compact' : 'standard',
+    maximumFractionDigits: compact ? 1 : 0,
+  }).format(value);
+}
+
+// Holder lists stop at a page cap, so a capped count is a lower bound: "1K+"
+export function formatHolderCount(subjectToken: Pick<SubjectToken, 'portfolio' | 'portfolioTruncated'>): string {
+  return `${formatCount(subjectToken.portfolio.length)}${subjectToken.portfolioTruncated ? '+' : ''}`;
+}
+
+// A USD value, e.g. "$1.50K"; amounts under a dollar keep four decimals since
+// single fan tokens are often worth cents
+export function formatUsd(value: number | null | undefined, options: Omit<AmountFormatOptions, 'fractionDigits'> = {}): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) {
+    return 'N/A';
+  }
+  const { compact = true, signed = false, locale = getDefaultLocale() } = options;
+  const fractionDigits = Math.abs(value) < 1 ? 4 : 2;
+  const formatter = getFormatter(locale, {
+    style: 'currency',
+    currency: 'USD',
+    notation: compact ? 'compact' : 'standard',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+    signDisplay: signed ? 'exceptZero' : 'negative',
+  });
+
+  const smallest = 10 ** -fractionDigits;
+  if (value !== 0 && Math.abs(value) < smallest) {
+    return `<${formatter.format(value < 0 ? -smallest : smallest)}`;
+  }
+  return formatter.format(value);
+}
@@ -0,0 +1,98 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// One JSON object per line so Vercel's log drains can filter on fields.
+// LOG_LEVEL picks the minimum level (default info); wallet addresses are
+// shortened to 0x1234…abcd unless LOG_REDACT_ADDRESSES=false.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const ADDRESS_PATTERN = /0x([0-9a-fA-F]{4})[0-9a-fA-F]{32}([0-9a-fA-F]{4})(?![0-9a-fA-F])/g;
+
+const traceStorage = new AsyncLocalStorage<string>();
+
+// Everything awaited inside fn, including upstream queries, logs this trace id
+export function runWithTraceId<T>(traceId: string, fn: () => T): T {
+  return traceStorage.run(traceId, fn);
+}
+
+export function getTraceId(): string | undefined {
+  return traceStorage.getStore();
+}
+
+function getMinimumLevel(): number {
+  const level = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+  return LOG_LEVELS[level && level in LOG_LEVELS ? level : 'info'];
+}
+
+export function redactAddresses(text: string): string {
+  return text.replace(ADDRESS_PATTERN, '0x$1…$2');
+}
+
+// Errors don't survive JSON.stringify, so flatten them first
+function serializeField(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  return value;
+}
+
+function write(level: LogLevel, scope: string, message: string, fields: LogFields = {}): void {
+  if (LOG_LEVELS[level] < getMinimumLevel()) {
+    return;
+  }
+
+  const entry = {
+    level,
+    time: new Date().toISOString(),
+    scope,
+    traceId: getTraceId(),
+    message,
+    ...fields,
+  };
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry, serializeField);
+  } catch {
+    line = JSON.stringify({ level, time: entry.time, scope, traceId: entry.traceId, message });
+  }
+  if (process.env.LOG_REDACT_ADDRESSES !== 'false') {
+    line = redactAddresses(line);
+  }
+
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, fields) => write('debug', scope, message, fields),
+    info: (message, fields) => write('info', scope, message, fields),
+    warn: (message, fields) => write('warn', scope, message, fields),
+    error: (message, fields) => write('error', scope, message, fields),
+  };
+}
@@ -0,0 +1,100 @@
+import { randomUUID } from 'node:crypto';
+import { createLogger } from './logger.js';
+
+const log = createLogger('notifiers');
+
+// Delivers a message to a Farcaster user. Alerts don't care how.
+export interface Notifier {
+  name: string;
+  send(fid: string, message: string): Promise<void>;
+}
+
+// Sends a Warpcast direct cast from the account that owns the API key
+export function createDirectCastNotifier(warpcastApiKey: string): Notifier {
+  return {
+    name: 'direct-cast',
+    async send(fid: string, message: string) {
+      const response = await fetch('https://api.warpcast.com/v2/ext-send-direct-cast', {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${warpcastApiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          recipientFid: parseInt(fid),
+          message,
+          idempotencyKey: randomUUID(),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Direct cast to FID ${fid} failed: ${response.status} ${await response.text()}`);
+      }
+    },
+  };
+}
+
+// Publishes a cast from a Neynar managed signer, mentioning the user by handle
+export function createNeynarCastNotifier(
+  neynarApiKey: string,
+  signerUuid: string,
+  getUsername: (fid: string) => Promise<string | null>
+): Notifier {
+  return {
+    name: 'neynar',
+    async send(fid: string, message: string) {
+      const username = await getUsername(fid);
+      const response = await fetch('https://api.neynar.com/v2/farcaster/cast', {
+        method: 'POST',
+        headers: {
+          'api_key': neynarApiKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          signer_uuid: signerUuid,
+          text: username ? `@${username} ${message}` : message,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Neynar cast for FID ${fid} failed: ${response.status} ${await response.text()}`);
+      }
+    },
+  };
+}
+
+// POSTs { fid, message } to any URL, e.g. a bot or a Slack/Discord relay
+export function createWebhookNotifier(url: string): Notifier {
+  return {
+    name: 'webhook',
+    async send(fid: string, message: string) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fid, message }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Webhook notification for FID ${fid} failed: ${response.status}`);
+      }
+    },
+  };
+}
+
+export interface StubNotifier extends Notifier {
+  sent: { fid: string; message: string }[];
+}
+
+// Records and logs messages instead of sending them, for local runs and tests
+export function createStubNotifier(): StubNotifier {
+  const sent: { fid: string; message: string }[] = [];
+
+  return {
+    name: 'stub',
+    sent,
+    async send(fid: string, message: string) {
+      log.info('Stub notification', { fid, message });
+      sent.push({ fid, message });
+    },
+  };
+}
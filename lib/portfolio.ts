@@ -0,0 +1,242 @@
+import { MOXIE_DECIMALS, toUnits } from './format.js';
+import type { HoldingWallet, TokenHolding, TradeOrder, WalletKind } from './types.js';
+
+export interface HoldingValuation {
+  holding: TokenHolding;
+  value: number;
+}
+
+export interface PortfolioSummary {
+  totalValue: number;
+  buyVolume: number;
+  sellVolume: number;
+  realisedPnl: number;
+  unrealisedPnl: number;
+  // One per wallet the token sits in
+  holdingsCount: number;
+  // Distinct subject tokens, so a token held in two wallets counts once
+  tokenCount: number;
+  topHoldings: HoldingValuation[];
+}
+
+export function getHoldingValue(holding: TokenHolding): number {
+  const balance = toUnits(holding.balance, holding.subjectToken.decimals || MOXIE_DECIMALS);
+  const price = parseFloat(holding.subjectToken.currentPriceInMoxie);
+  return isNaN(price) ? 0 : balance * price;
+}
+
+// The subgraph only gives aggregate MOXIE in (buyVolume) and out (sellVolume)
+// per holding, so P&L is an estimate: sales are treated as recovering the
+// amount invested first (realised only once sales exceed purchases), and
+// whatever is still invested is the cost basis of the current balance.
+export function summarizePortfolio(holdings: TokenHolding[], topCount: number = 5): PortfolioSummary {
+  let totalValue = 0;
+  let buyVolume = 0;
+  let sellVolume = 0;
+  let realisedPnl = 0;
+  let unrealisedPnl = 0;
+
+  const valuations = holdings.map(holding => {
+    const value = getHoldingValue(holding);
+    const bought = toUnits(holding.buyVolume, MOXIE_DECIMALS);
+    const sold = toUnits(holding.sellVolume, MOXIE_DECIMALS);
+    const costBasis = Math.max(bought - sold, 0);
+
+    totalValue += value;
+    buyVolume += bought;
+    sellVolume += sold;
+    realisedPnl += Math.max(sold - bought, 0);
+    unrealisedPnl += value - costBasis;
+
+    return { holding, value };
+  });
+
+  const topHoldings = valuations
+    .filter(valuation => valuation.value > 0)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, topCount);
+
+  return {
+    totalValue,
+    buyVolume,
+    sellVolume,
+    realisedPnl,
+    unrealisedPnl,
+    holdingsCount: holdings.length,
+    tokenCount: new Set(holdings.map(holding => holding.subjectToken.symbol)).size,
+    topHoldings,
+  };
+}
+
+export interface HoldingPnl {
+  averageEntryPrice: number;
+  costBasis: number;
+  currentValue: number;
+  unrealisedPnl: number;
+  unrealisedPnlPercent: number;
+  // 'trades' when the average comes from the full order history, otherwise
+  // it is estimated from the aggregate volumes like summarizePortfolio
+  source: 'trades' | 'volumes';
+}
+
+// Average-cost method: buys add to the pool of cost, sells take out their
+// share of it, so the entry price only moves when buying. Trades must be
+// complete for the holding's wallet; pass null when the history was capped.
+export function getHoldingPnl(holding: TokenHolding, trades: TradeOrder[] | null = null): HoldingPnl {
+  const decimals = holding.subjectToken.decimals || 18;
+  const balance = toUnits(holding.balance, decimals);
+  const currentValue = getHoldingValue(holding);
+
+  let averageEntryPrice = 0;
+  let source: HoldingPnl['source'] = 'volumes';
+
+  if (trades && trades.length > 0) {
+    let tokens = 0;
+    let cost = 0;
+    const oldestFirst = [...trades].sort((a, b) => parseInt(a.blockTimestamp) - parseInt(b.blockTimestamp));
+    for (const trade of oldestFirst) {
+      const amount = toUnits(trade.subjectAmount, decimals);
+      if (trade.orderType === 'BUY') {
+        tokens += amount;
+        cost += toUnits(trade.protocolTokenAmount, MOXIE_DECIMALS);
+      } else if (tokens > 0) {
+        cost -= cost * Math.min(amount / tokens, 1);
+        tokens = Math.max(tokens - amount, 0);
+      }
+    }
+    if (tokens > 0) {
+      averageEntryPrice = cost / tokens;
+      source = 'trades';
+    }
+  }
+
+  if (source === 'volumes' && balance > 0) {
+    const netInvested = toUnits(holding.buyVolume, MOXIE_DECIMALS) - toUnits(holding.sellVolume, MOXIE_DECIMALS);
+    averageEntryPrice = Math.max(netInvested, 0) / balance;
+  }
+
+  const costBasis = averageEntryPrice * balance;
+  const unrealisedPnl = currentValue - costBasis;
+
+  return {
+    averageEntryPrice,
+    costBasis,
+    currentValue,
+    unrealisedPnl,
+    unrealisedPnlPercent: costBasis > 0 ? (unrealisedPnl / costBasis) * 100 : 0,
+    source,
+  };
+}
+
+export type HoldingSort = 'value' | 'balance' | 'buyVolume' | 'price' | 'recent';
+export type HoldingTypeFilter = 'all' | 'users' | 'channels';
+
+export interface HoldingsView {
+  sort: HoldingSort;
+  type: HoldingTypeFilter;
+  // Holdings worth less than this many MOXIE are hidden as dust
+  minValue: number;
+  // Only show holdings in this address; null merges every wallet
+  wallet: string | null;
+}
+
+export const DEFAULT_HOLDINGS_VIEW: HoldingsView = {
+  sort: 'value',
+  type: 'all',
+  minValue: 0,
+  wallet: null,
+};
+
+export const HOLDING_SORT_LABELS: Record<HoldingSort, string> = {
+  value: 'Value',
+  balance: 'Balance',
+  buyVolume: 'Buy Volume',
+  price: 'Price',
+  recent: 'Recent',
+};
+
+export const HOLDING_TYPE_LABELS: Record<HoldingTypeFilter, string> = {
+  all: 'All',
+  users: 'Users',
+  channels: 'Channels',
+};
+
+export const WALLET_KIND_LABELS: Record<WalletKind, string> = {
+  custody: 'Custody',
+  verified: 'Verified',
+  vesting: 'Vesting',
+};
+
+export function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+// Verified addresses and lock wallets are numbered in the order the APIs
+// return them when there is more than one of a kind
+export function getWalletLabel(wallets: HoldingWallet[], address: string | null | undefined): string {
+  if (!address) return 'All Wallets';
+
+  const wallet = wallets.find(w => w.address === address.toLowerCase());
+  if (!wallet) return shortenAddress(address);
+
+  const sameKind = wallets.filter(w => w.kind === wallet.kind);
+  return sameKind.length > 1
+    ? `${WALLET_KIND_LABELS[wallet.kind]} ${sameKind.indexOf(wallet) + 1}`
+    : WALLET_KIND_LABELS[wallet.kind];
+}
+
+export interface WalletBreakdown {
+  wallet: HoldingWallet;
+  holdingsCount: number;
+  totalValue: number;
+}
+
+export function summarizeWallets(holdings: TokenHolding[], wallets: HoldingWallet[]): WalletBreakdown[] {
+  return wallets.map(wallet => {
+    const held = holdings.filter(holding => holding.address?.toLowerCase() === wallet.address);
+    return {
+      wallet,
+      holdingsCount: held.length,
+      totalValue: held.reduce((total, holding) => total + getHoldingValue(holding), 0),
+    };
+  });
+}
+
+export function nextOption<T>(options: T[], current: T): T {
+  return options[(options.indexOf(current) + 1) % options.length];
+}
+
+// lastPurchases maps a token symbol to the unix time of the latest buy; it is
+// only needed for the 'recent' sort and holdings missing from it sort last.
+export function applyHoldingsView(
+  holdings: TokenHolding[],
+  view: HoldingsView,
+  lastPurchases: Record<string, number> = {}
+): TokenHolding[] {
+  const sortKey = (holding: TokenHolding): number => {
+    switch (view.sort) {
+      case 'value':
+        return getHoldingValue(holding);
+      case 'balance':
+        return toUnits(holding.balance, holding.subjectToken.decimals || 18);
+      case 'buyVolume':
+        return toUnits(holding.buyVolume, MOXIE_DECIMALS);
+      case 'price':
+        return parseFloat(holding.subjectToken.currentPriceInMoxie) || 0;
+      case 'recent':
+        return lastPurchases[holding.subjectToken.symbol] ?? 0;
+    }
+  };
+
+  return holdings
+    .filter(holding => {
+      const symbol = holding.subjectToken.symbol;
+      if (view.type === 'users' && !symbol.startsWith('fid:')) return false;
+      if (view.type === 'channels' && !symbol.startsWith('cid:')) return false;
+      if (view.wallet && holding.address?.toLowerCase() !== view.wallet) return false;
+      return view.minValue <= 0 || getHoldingValue(holding) >= view.minValue;
+    })
+    .map(holding => ({ holding, key: sortKey(holding) }))
+    .sort((a, b) => b.key - a.key)
+    .map(({ holding }) => holding);
+}
@@ -0,0 +1,95 @@
+import { createLogger } from './logger.js';
+
+const log = createLogger('prices');
+
+// What the viewer picked for MOXIE-denominated figures
+export type DisplayCurrency = 'MOXIE' | 'USD';
+
+export function isDisplayCurrency(value: unknown): value is DisplayCurrency {
+  return value === 'MOXIE' || value === 'USD';
+}
+
+// Where the MOXIE/USD rate comes from. Frames don't care which.
+export interface PriceSource {
+  name: string;
+  getMoxieUsdRate(): Promise<number>;
+}
+
+// Always answers with the same rate; for offline runs and tests
+export function createFixedRateSource(rate: number): PriceSource {
+  return {
+    name: 'fixed',
+    async getMoxieUsdRate() {
+      return rate;
+    },
+  };
+}
+
+// CoinGecko's simple price endpoint; a demo API key raises the rate limit
+export function createCoinGeckoSource(apiKey?: string, coinId: string = 'moxie'): PriceSource {
+  return {
+    name: 'coingecko',
+    async getMoxieUsdRate() {
+      const response = await fetch(`https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=usd`, {
+        headers: apiKey ? { 'x-cg-demo-api-key': apiKey } : {},
+        signal: AbortSignal.timeout(2000),
+      });
+
+      if (!response.ok) {
+        throw new Error(`CoinGecko price request failed: ${response.status}`);
+      }
+
+      const body = await response.json() as Record<string, { usd?: number }>;
+      const rate = body[coinId]?.usd;
+      if (typeof rate !== 'number' || !(rate > 0)) {
+        throw new Error(`CoinGecko returned no USD price for ${coinId}`);
+      }
+      return rate;
+    },
+  };
+}
+
+// Roughly MOXIE's price when the stub was added; override with MOXIE_USD_RATE
+const DEFAULT_FIXED_RATE = 0.002;
+
+let priceSource: PriceSource | null = null;
+
+// PRICE_SOURCE picks the source; fixture runs default to the fixed rate so
+// they stay offline
+export function getPriceSource(): PriceSource {
+  if (!priceSource) {
+    const sourceName = process.env.PRICE_SOURCE || (process.env.DATA_SOURCE === 'fixture' ? 'fixed' : 'coingecko');
+    priceSource = sourceName === 'fixed'
+      ? createFixedRateSource(parseFloat(process.env.MOXIE_USD_RATE || '') || DEFAULT_FIXED_RATE)
+      : createCoinGeckoSource(process.env.COINGECKO_API_KEY);
+  }
+  return priceSource;
+}
+
+export function setPriceSource(source: PriceSource | null): void {
+  priceSource = source;
+  cachedRate = null;
+}
+
+// The rate moves slowly next to how often frames render
+const RATE_TTL_MS = 5 * 60 * 1000;
+
+let cachedRate: { rate: number; fetchedAt: number } | null = null;
+
+// MOXIE/USD, or null when no rate has ever loaded. A failed refresh keeps
+// serving the last known rate, since a slightly old USD figure beats none.
+export async function getMoxieUsdRate(): Promise<number | null> {
+  if (cachedRate && Date.now() - cachedRate.fetchedAt < RATE_TTL_MS) {
+    return cachedRate.rate;
+  }
+
+  const source = getPriceSource();
+  try {
+    const rate = await source.getMoxieUsdRate();
+    cachedRate = { rate, fetchedAt: Date.now() };
+    return rate;
+  } catch (error) {
+    log.warn('Error fetching MOXIE/USD rate', { source: source.name, stale: cachedRate !== null, error });
+    return cachedRate?.rate ?? null;
+  }
+}
@@ -0,0 +1,60 @@
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { getFanTokenInfo, getHoldingAddressesForFID, getOwnedFanTokens, getProfileInfo } from './fetchers.js';
+import { createLogger } from './logger.js';
+import { isUpstreamError } from './upstream.js';
+
+const log = createLogger('rest-api');
+
+// Plain JSON versions of the data behind the frames, for dashboards and bots.
+// Mounted under /api/v1; every route responds with the typed data or { error }.
+export const restApi = new Hono();
+
+restApi.use('*', cors({ origin: '*', allowMethods: ['GET'] }));
+
+// Upstream failures are a 503 naming the source, so clients know to retry later
+restApi.onError((error, c) => {
+  if (isUpstreamError(error)) {
+    log.warn('Upstream failure', { path: c.req.path, source: error.source, kind: error.kind });
+    return c.json({ error: error.message, source: error.source, kind: error.kind }, 503);
+  }
+  log.error('Unhandled error', { path: c.req.path, error });
+  return c.json({ error: 'Internal server error' }, 500);
+});
+
+restApi.use('/fid/:fid/*', async (c, next) => {
+  if (!/^\d+$/.test(c.req.param('fid'))) {
+    return c.json({ error: 'FID must be a positive integer' }, 400);
+  }
+  await next();
+});
+
+restApi.get('/fid/:fid/token', async (c) => {
+  const fid = c.req.param('fid');
+  const tokenInfo = await getFanTokenInfo(fid);
+
+  if (!tokenInfo) {
+    return c.json({ error: `No fan token found for FID ${fid}` }, 404);
+  }
+  return c.json(tokenInfo);
+});
+
+restApi.get('/fid/:fid/holdings', async (c) => {
+  const fid = c.req.param('fid');
+  const addresses = await getHoldingAddressesForFID(fid);
+
+  if (addresses.length === 0) {
+    return c.json({ error: `No Farcaster profile found for FID ${fid}` }, 404);
+  }
+  return c.json(await getOwnedFanTokens(addresses) || []);
+});
+
+restApi.get('/fid/:fid/profile', async (c) => {
+  const fid = c.req.param('fid');
+  const profileInfo = await getProfileInfo(fid);
+
+  if (!profileInfo) {
+    return c.json({ error: `No profile found for FID ${fid}` }, 404);
+  }
+  return c.json(profileInfo);
+});
@@ -0,0 +1,63 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { createLogger } from './logger.js';
+
+// Share images are rendered from values carried in the share URL, so the
+// payload is signed: anyone can read it, but only this server can mint one.
+// A missing, tampered or expired payload makes the frame fetch live data.
+
+const log = createLogger('share-state');
+
+export const SHARE_STATE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+let fallbackSecret: string | null = null;
+
+function getShareSecret(): string {
+  if (process.env.SHARE_SECRET) {
+    return process.env.SHARE_SECRET;
+  }
+  // Without a configured secret, payloads only verify on the instance that
+  // signed them; everywhere else the share frames fall back to live data.
+  if (!fallbackSecret) {
+    log.warn('SHARE_SECRET is not set in the environment variables');
+    fallbackSecret = randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+}
+
+function sign(body: string): Buffer {
+  return createHmac('sha256', getShareSecret()).update(body).digest();
+}
+
+export function signShareState<T extends object>(payload: T, now: number = Date.now()): string {
+  const body = Buffer.from(JSON.stringify({ ...payload, ts: now })).toString('base64url');
+  return `${body}.${sign(body).toString('base64url')}`;
+}
+
+export function verifyShareState<T extends object>(
+  token: string | undefined,
+  maxAgeMs: number = SHARE_STATE_MAX_AGE_MS,
+  now: number = Date.now()
+): (T & { ts: number }) | null {
+  if (!token) return null;
+
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = sign(body);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    log.warn('Share state signature mismatch');
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (typeof payload.ts !== 'number' || now - payload.ts > maxAgeMs) {
+      log.info('Share state expired', { signedAt: payload.ts });
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,11 @@
+// Moxie subject token symbols are fid:<FID> for users and cid:<channel id> for channels
+
+export function getChannelIdFromSymbol(symbol: string): string | null {
+  return symbol.startsWith('cid:') ? symbol.split(':')[1] : null;
+}
+
+// Accepts /channel, cid:channel or a bare channel id
+export function parseChannelInput(input: string): string | null {
+  const channelId = input.trim().replace(/^(?:cid:|\/)/i, '').toLowerCase();
+  return /^[a-z0-9-]+$/.test(channelId) ? channelId : null;
+}
@@ -0,0 +1,69 @@
+import { getConfiguredKeyValueClient, type KeyValueClient } from './cache.js';
+import { createLogger } from './logger.js';
+import { DEFAULT_THEME_NAME, isThemeName, type ThemeName } from './theme.js';
+
+const log = createLogger('theme-preferences');
+
+// The card theme each creator picked, keyed by FID
+export interface ThemePreferenceStore {
+  get(fid: string): Promise<ThemeName | null>;
+  set(fid: string, theme: ThemeName): Promise<void>;
+}
+
+export function createMemoryThemePreferenceStore(): ThemePreferenceStore {
+  const themes = new Map<string, ThemeName>();
+
+  return {
+    async get(fid: string) {
+      return themes.get(fid) ?? null;
+    },
+    async set(fid: string, theme: ThemeName) {
+      themes.set(fid, theme);
+    },
+  };
+}
+
+export function createKeyValueThemePreferenceStore(client: KeyValueClient, prefix: string = 'fantokens:theme:'): ThemePreferenceStore {
+  return {
+    async get(fid: string) {
+      const theme = await client.get<string>(prefix + fid);
+      // Ignore themes that have since been removed
+      return isThemeName(theme) ? theme : null;
+    },
+    async set(fid: string, theme: ThemeName) {
+      await client.set(prefix + fid, theme);
+    },
+  };
+}
+
+let themePreferenceStore: ThemePreferenceStore | null = null;
+
+// Like alerts, preferences go to the KV store when one is configured. The
+// in-memory fallback forgets them on cold starts and isn't shared between
+// instances, so a card may show the default theme until the creator re-saves.
+export function getThemePreferenceStore(): ThemePreferenceStore {
+  if (!themePreferenceStore) {
+    const client = getConfiguredKeyValueClient();
+    themePreferenceStore = client ? createKeyValueThemePreferenceStore(client) : createMemoryThemePreferenceStore();
+  }
+  return themePreferenceStore;
+}
+
+export function setThemePreferenceStore(store: ThemePreferenceStore | null): void {
+  themePreferenceStore = store;
+}
+
+// A store outage shouldn't break the card, so it falls back to the default theme
+export async function getThemeNameForFid(fid: string): Promise<ThemeName> {
+  try {
+    return (await getThemePreferenceStore().get(fid)) ?? DEFAULT_THEME_NAME;
+  } catch (error) {
+    log.warn('Error reading theme preference', { fid, error });
+    return DEFAULT_THEME_NAME;
+  }
+}
+
+export async function saveThemeNameForFid(fid: string, theme: ThemeName): Promise<void> {
+  await getThemePreferenceStore().set(fid, theme);
+  log.info('Theme preference saved', { fid, theme });
+}
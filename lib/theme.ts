@@ -0,0 +1,152 @@
+// Design tokens for the frame images. Components take a Theme instead of
+// hard-coding colours so every card stays consistent.
+
+export interface Theme {
+  // Shown on the theme picker
+  label: string;
+  // Behind token cards (/yourfantoken, /share); an image URL or any CSS colour
+  tokenBackground: string;
+  // Behind holding cards (/owned-tokens, /share-owned)
+  holdingBackground: string;
+  // Home, menus and error screens
+  screenBackground: string;
+  // Headings on the token and holding backgrounds
+  tokenTitleColor: string;
+  holdingTitleColor: string;
+  // Text on screenBackground
+  textColor: string;
+  mutedColor: string;
+  // Avatar rings and placeholders
+  accentColor: string;
+  glowColor: string;
+  statBackground: string;
+  statTextColor: string;
+  positiveColor: string;
+  negativeColor: string;
+  // Must be one of the fonts loaded in the app's imageOptions
+  fontFamily: string;
+}
+
+export type ThemeName = 'classic' | 'light' | 'dark' | 'neon' | 'minimal';
+
+export const THEMES: Record<ThemeName, Theme> = {
+  classic: {
+    label: 'Classic',
+    tokenBackground: 'https://bafybeidk74qchajtzcnpnjfjo6ku3yryxkn6usjh2jpsrut7lgom6g5n2m.ipfs.w3s.link/Untitled%20543%201.png',
+    holdingBackground: 'https://bafybeiata3diat4mmcnz54vbqfrs5hqrbankpp5ynvhbtglrxakj55hx6y.ipfs.w3s.link/Frame%2064%20(8).png',
+    screenBackground: '#000000',
+    tokenTitleColor: '#ffffff',
+    holdingTitleColor: '#000000',
+    textColor: '#ffffff',
+    mutedColor: '#9B6DF1',
+    accentColor: '#FFA500',
+    glowColor: 'rgba(128, 0, 128, 0.5)',
+    statBackground: 'rgba(255, 255, 255, 0.8)',
+    statTextColor: '#000000',
+    positiveColor: '#2E7D32',
+    negativeColor: '#D32F2F',
+    fontFamily: '"Protest Riot", sans-serif',
+  },
+  light: {
+    label: 'Light',
+    tokenBackground: 'linear-gradient(135deg, #FDFBFB 0%, #E4E7F2 100%)',
+    holdingBackground: 'linear-gradient(135deg, #FDFBFB 0%, #E4E7F2 100%)',
+    screenBackground: '#FFFFFF',
+    tokenTitleColor: '#1A1A2E',
+    holdingTitleColor: '#1A1A2E',
+    textColor: '#1A1A2E',
+    mutedColor: '#6B7280',
+    accentColor: '#8B50FA',
+    glowColor: 'rgba(139, 80, 250, 0.25)',
+    statBackground: '#FFFFFF',
+    statTextColor: '#1A1A2E',
+    positiveColor: '#2E7D32',
+    negativeColor: '#D32F2F',
+    fontFamily: '"Inter", sans-serif',
+  },
+  dark: {
+    label: 'Dark',
+    tokenBackground: 'linear-gradient(135deg, #0F0C29 0%, #302B63 50%, #24243E 100%)',
+    holdingBackground: 'linear-gradient(135deg, #0F0C29 0%, #302B63 50%, #24243E 100%)',
+    screenBackground: '#0B0B12',
+    tokenTitleColor: '#FFFFFF',
+    holdingTitleColor: '#FFFFFF',
+    textColor: '#FFFFFF',
+    mutedColor: '#A5A3C9',
+    accentColor: '#8B50FA',
+    glowColor: 'rgba(139, 80, 250, 0.6)',
+    statBackground: 'rgba(255, 255, 255, 0.1)',
+    statTextColor: '#FFFFFF',
+    positiveColor: '#4ADE80',
+    negativeColor: '#F87171',
+    fontFamily: '"Inter", sans-serif',
+  },
+  neon: {
+    label: 'Neon',
+    tokenBackground: 'linear-gradient(135deg, #000000 0%, #1A0033 100%)',
+    holdingBackground: 'linear-gradient(135deg, #000000 0%, #1A0033 100%)',
+    screenBackground: '#000000',
+    tokenTitleColor: '#39FF14',
+    holdingTitleColor: '#39FF14',
+    textColor: '#FFFFFF',
+    mutedColor: '#FF00E5',
+    accentColor: '#FF00E5',
+    glowColor: 'rgba(57, 255, 20, 0.7)',
+    statBackground: 'rgba(0, 0, 0, 0.6)',
+    statTextColor: '#00F0FF',
+    positiveColor: '#39FF14',
+    negativeColor: '#FF3131',
+    fontFamily: '"Orbitron", sans-serif',
+  },
+  minimal: {
+    label: 'Minimal',
+    tokenBackground: '#FFFFFF',
+    holdingBackground: '#FFFFFF',
+    screenBackground: '#FFFFFF',
+    tokenTitleColor: '#111111',
+    holdingTitleColor: '#111111',
+    textColor: '#111111',
+    mutedColor: '#888888',
+    accentColor: '#111111',
+    glowColor: 'rgba(0, 0, 0, 0)',
+    statBackground: '#F5F5F5',
+    statTextColor: '#111111',
+    positiveColor: '#15803D',
+    negativeColor: '#B91C1C',
+    fontFamily: '"Inter", sans-serif',
+  },
+};
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[];
+
+export const DEFAULT_THEME_NAME: ThemeName = 'classic';
+
+export const DEFAULT_THEME: Theme = THEMES[DEFAULT_THEME_NAME];
+
+export function isThemeName(value: unknown): value is ThemeName {
+  return typeof value === 'string' && Object.hasOwn(THEMES, value);
+}
+
+// Neighbouring theme for the picker's previous/next buttons, wrapping around
+export function getAdjacentThemeName(name: ThemeName, step: 1 | -1): ThemeName {
+  const index = THEME_NAMES.indexOf(name);
+  return THEME_NAMES[(index + step + THEME_NAMES.length) % THEME_NAMES.length];
+}
+
+// Backgrounds can be an image or a plain colour/gradient
+export function getBackgroundStyle(background: string): Record<string, string> {
+  if (/^https?:\/\//.test(background)) {
+    return {
+      backgroundImage: `url(${background})`,
+      backgroundSize: 'cover',
+      backgroundPosition: 'center',
+    };
+  }
+  return background.includes('gradient(')
+    ? { backgroundImage: background }
+    : { backgroundColor: background };
+}
+
+export function getPnlColor(theme: Theme, value: number): string {
+  return value < 0 ? theme.negativeColor : theme.positiveColor;
+}
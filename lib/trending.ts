@@ -0,0 +1,63 @@
+import { sumRawAmounts, toUnits } from './format.js';
+import type { SubjectTokenSnapshot } from './types.js';
+
+export type TrendingMetric = 'volume' | 'priceChange' | 'newHolders';
+
+export const TRENDING_METRIC_LABELS: Record<TrendingMetric, string> = {
+  volume: 'Volume',
+  priceChange: 'Price',
+  newHolders: 'Holders',
+};
+
+export interface TrendingToken {
+  symbol: string;
+  name: string;
+  currentPrice: number;
+  // MOXIE traded over the window
+  volume: number;
+  priceChangePercent: number;
+  newHolders: number;
+}
+
+// Folds hourly snapshots into one figure per token: volume is summed, price
+// and holder changes run from the first hour's start to the last hour's end
+export function summarizeTrendingTokens(snapshots: SubjectTokenSnapshot[]): TrendingToken[] {
+  const byToken = new Map<string, SubjectTokenSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const tokenSnapshots = byToken.get(snapshot.subjectToken.id) ?? [];
+    tokenSnapshots.push(snapshot);
+    byToken.set(snapshot.subjectToken.id, tokenSnapshots);
+  }
+
+  return [...byToken.values()].map(tokenSnapshots => {
+    const sorted = tokenSnapshots.sort((a, b) => parseInt(a.startTimestamp) - parseInt(b.startTimestamp));
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    const startPrice = parseFloat(first.startPrice) || 0;
+    const endPrice = parseFloat(last.endPrice) || 0;
+
+    return {
+      symbol: last.subjectToken.symbol,
+      name: last.subjectToken.name,
+      currentPrice: parseFloat(last.subjectToken.currentPriceInMoxie) || endPrice,
+      volume: toUnits(sumRawAmounts(sorted.map(snapshot => snapshot.hourlyVolume))),
+      priceChangePercent: startPrice > 0 ? ((endPrice - startPrice) / startPrice) * 100 : 0,
+      newHolders: (parseInt(last.endUniqueHolders) || 0) - (parseInt(first.startUniqueHolders) || 0),
+    };
+  });
+}
+
+// Price moves on barely-traded tokens are noise, so price change only ranks
+// tokens with at least minVolume MOXIE traded
+export function rankTrendingTokens(
+  tokens: TrendingToken[],
+  metric: TrendingMetric,
+  count: number,
+  minVolume: number = 100
+): TrendingToken[] {
+  const candidates = metric === 'priceChange' ? tokens.filter(token => token.volume >= minVolume) : tokens;
+  const key = (token: TrendingToken) =>
+    metric === 'volume' ? token.volume : metric === 'priceChange' ? token.priceChangePercent : token.newHolders;
+
+  return [...candidates].sort((a, b) => key(b) - key(a)).slice(0, count);
+}
@@ -0,0 +1,129 @@
+// Type definitions shared by the data layer and the frames
+export interface TokenHolding {
+  balance: string;
+  buyVolume: string;
+  sellVolume: string;
+  subjectToken: {
+    name: string;
+    symbol: string;
+    currentPriceInMoxie: string;
+    decimals?: number;
+  };
+  // Wallet the balance sits in; a token held in two wallets is two holdings
+  address?: string;
+}
+
+export type WalletKind = 'custody' | 'verified' | 'vesting';
+
+// An address whose holdings count towards a Farcaster user's portfolio
+export interface HoldingWallet {
+  address: string;
+  kind: WalletKind;
+}
+
+// One hour of activity for a subject token; volume is in wei
+export interface SubjectTokenSnapshot {
+  id: string;
+  startTimestamp: string;
+  startPrice: string;
+  endPrice: string;
+  hourlyVolume: string;
+  startUniqueHolders: string;
+  endUniqueHolders: string;
+  subjectToken: {
+    id: string;
+    name: string;
+    symbol: string;
+    currentPriceInMoxie: string;
+  };
+}
+
+// A buy or sell on the bonding curve; amounts are in wei, price in MOXIE
+export interface TradeOrder {
+  orderType: 'BUY' | 'SELL';
+  subjectAmount: string;
+  protocolTokenAmount: string;
+  price: string;
+  blockTimestamp: string;
+  user: {
+    id: string;
+  };
+}
+
+// A tokenLockWallet from the vesting subgraph; amounts are in wei, times in
+// unix seconds
+export interface VestingContract {
+  address: string;
+  beneficiary: string;
+  managedAmount: string;
+  tokensReleased: string;
+  startTime: string;
+  endTime: string;
+  periods: string;
+  vestingCliffTime?: string;
+}
+
+export interface PortfolioEntry {
+  balance: string;
+  user: {
+    id: string;
+  };
+}
+
+export interface SubjectToken {
+  currentPriceInMoxie: string;
+  id: string;
+  name: string;
+  symbol: string;
+  decimals?: number;
+  totalSupply?: string;
+  buySideVolume?: string;
+  sellSideVolume?: string;
+  // The largest holders, largest balance first, up to one page of 1000
+  portfolio: PortfolioEntry[];
+  // True when the page was full, so its length is a lower bound on holders
+  portfolioTruncated?: boolean;
+}
+
+export interface TokenInfo {
+  subjectTokens: SubjectToken[];
+}
+
+export interface ProfileInfo {
+  farcasterSocial: {
+    profileName?: string;
+    profileDisplayName: string;
+    profileImage: string;
+    profileBio: string;
+    followerCount: number;
+    followingCount: number;
+    farcasterScore: {
+      farScore: number;
+    };
+  };
+  primaryDomain?: {
+    name: string;
+  };
+}
+
+export interface FanTokenAddress {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export type PriceWindow = '24h' | '7d' | '30d';
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+export interface ChannelInfo {
+  channelId: string;
+  name: string;
+  description?: string;
+  imageUrl?: string;
+  followerCount: number;
+}
@@ -0,0 +1,280 @@
+import { matchOperationName, type DataProvider, type DataSource, type DataSourceName, type QueryVariables } from './data-sources.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('upstream');
+
+// Why an upstream query gave up, so frames can say more than "error":
+// - timeout: every attempt ran past the source's deadline
+// - unavailable: the endpoint was unreachable or kept answering 5xx/429
+// - rejected: it answered but refused the query (GraphQL or 4xx error)
+// - circuit-open: recent queries failed so often that this one wasn't sent
+export type UpstreamErrorKind = 'timeout' | 'unavailable' | 'rejected' | 'circuit-open';
+
+export interface UpstreamError extends Error {
+  name: 'UpstreamError';
+  source: DataSourceName;
+  kind: UpstreamErrorKind;
+  operation: string;
+  attempts: number;
+}
+
+export type FetchResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: UpstreamError };
+
+export interface UpstreamPolicy {
+  // Deadline for a single attempt
+  timeoutMs: number;
+  // Extra attempts after the first, only for timeouts and unavailable errors
+  retries: number;
+  // Delay before the first retry; doubles each time, plus up to 50% jitter
+  backoffMs: number;
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit fails fast before letting a single trial query
+  // through; the others keep failing fast until it answers
+  cooldownMs: number;
+}
+
+// Frames must answer within about 5 seconds, so attempts are short and retried
+// at most once; the cache still serves stale data while a source is down.
+export const DEFAULT_UPSTREAM_POLICIES: Record<DataSourceName, UpstreamPolicy> = {
+  moxie: { timeoutMs: 2500, retries: 1, backoffMs: 150, failureThreshold: 5, cooldownMs: 30 * 1000 },
+  airstack: { timeoutMs: 2000, retries: 1, backoffMs: 150, failureThreshold: 5, cooldownMs: 30 * 1000 },
+  vesting: { timeoutMs: 2500, retries: 1, backoffMs: 150, failureThreshold: 5, cooldownMs: 60 * 1000 },
+};
+
+const UPSTREAM_ERROR_MESSAGES: Record<UpstreamErrorKind, string> = {
+  timeout: 'timed out',
+  unavailable: 'is unavailable',
+  rejected: 'rejected the query',
+  'circuit-open': 'is failing, skipped while the circuit is open',
+};
+
+export function createUpstreamError(
+  source: DataSourceName,
+  kind: UpstreamErrorKind,
+  operation: string,
+  attempts: number,
+  cause?: unknown
+): UpstreamError {
+  const error = new Error(`${source} ${UPSTREAM_ERROR_MESSAGES[kind]} (${operation})`, { cause }) as UpstreamError;
+  error.name = 'UpstreamError';
+  error.source = source;
+  error.kind = kind;
+  error.operation = operation;
+  error.attempts = attempts;
+  return error;
+}
+
+export function isUpstreamError(error: unknown): error is UpstreamError {
+  return error instanceof Error && error.name === 'UpstreamError';
+}
+
+// Fetchers swallow bad or missing data into null, but an upstream failure has
+// to reach the frame so it can render the matching degraded state
+export function rethrowUpstreamError(error: unknown): void {
+  if (isUpstreamError(error)) {
+    throw error;
+  }
+}
+
+// Turns a fetcher call into a FetchResult; anything other than an upstream
+// failure is a bug and is rethrown
+export async function settle<T>(promise: Promise<T>): Promise<FetchResult<T>> {
+  try {
+    return { ok: true, data: await promise };
+  } catch (error) {
+    if (isUpstreamError(error)) {
+      return { ok: false, error };
+    }
+    throw error;
+  }
+}
+
+// For secondary data a frame can render without, like a powerboost score:
+// an upstream failure becomes the fallback instead of failing the frame
+export async function withFallback<T>(promise: Promise<T>, fallback: T): Promise<T> {
+  const result = await settle(promise);
+  return result.ok ? result.data : fallback;
+}
+
+// Farcaster clients give a frame about 5 seconds to answer, and rendering
+// the image takes part of that
+export const FRAME_BUDGET_MS = 4000;
+
+export interface DeadlineError extends Error {
+  name: 'DeadlineError';
+  budgetMs: number;
+}
+
+export function isDeadlineError(error: unknown): error is DeadlineError {
+  return error instanceof Error && error.name === 'DeadlineError';
+}
+
+function createDeadlineError(budgetMs: number): DeadlineError {
+  const error = new Error(`Frame data took longer than ${budgetMs}ms`) as DeadlineError;
+  error.name = 'DeadlineError';
+  error.budgetMs = budgetMs;
+  return error;
+}
+
+// One overall deadline shared by every fetch a frame handler starts, so
+// independent fetches can run concurrently and the frame still answers in time
+export interface LatencyBudget {
+  remainingMs(): number;
+  // Rejects with a DeadlineError if the data isn't there before the deadline
+  required<T>(promise: Promise<T>): Promise<T>;
+  // Resolves to the fallback on an upstream failure or once the deadline passes
+  optional<T>(promise: Promise<T>, fallback: T): Promise<T>;
+}
+
+function raceTimer<T>(promise: Promise<T>, ms: number, onExpired: () => T): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<T>((resolve, reject) => {
+    timer = setTimeout(() => {
+      try {
+        resolve(onExpired());
+      } catch (error) {
+        reject(error);
+      }
+    }, Math.max(ms, 0));
+  });
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+export function createLatencyBudget(budgetMs: number = FRAME_BUDGET_MS): LatencyBudget {
+  const deadline = Date.now() + budgetMs;
+  const remainingMs = () => deadline - Date.now();
+
+  return {
+    remainingMs,
+    required: <T>(promise: Promise<T>) =>
+      raceTimer(promise, remainingMs(), () => {
+        throw createDeadlineError(budgetMs);
+      }),
+    optional: <T>(promise: Promise<T>, fallback: T) =>
+      raceTimer(withFallback(promise, fallback), remainingMs(), () => {
+        log.info('Skipped data that missed the frame deadline', { budgetMs });
+        return fallback;
+      }),
+  };
+}
+
+// graphql-request puts the HTTP status on ClientError.response; fetch failures
+// (DNS, reset connections) have none
+function classifyFailure(error: unknown): UpstreamErrorKind {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return 'timeout';
+  }
+  const status = (error as { response?: { status?: number } })?.response?.status;
+  if (status === undefined || status === 429 || status >= 500) {
+    return 'unavailable';
+  }
+  return 'rejected';
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createResilientSource(source: DataSource, policy: UpstreamPolicy): DataSource {
+  let consecutiveFailures = 0;
+  let openUntil = 0;
+  let trialInFlight = false;
+
+  const recordFailure = (operation: string) => {
+    consecutiveFailures++;
+    if (consecutiveFailures >= policy.failureThreshold) {
+      // Stays open until a query succeeds; each failed trial restarts the cooldown
+      if (openUntil <= Date.now()) {
+        log.warn('Circuit opened', { source: source.name, operation, consecutiveFailures, cooldownMs: policy.cooldownMs });
+      }
+      openUntil = Date.now() + policy.cooldownMs;
+    }
+  };
+
+  const attempt = async <T>(query: string, variables: QueryVariables | undefined): Promise<T> => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`Timed out after ${policy.timeoutMs}ms`);
+        error.name = 'TimeoutError';
+        controller.abort(error);
+        reject(error);
+      }, policy.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([source.request<T>(query, variables, { signal: controller.signal }), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    name: source.name,
+    async request<T>(query: string, variables?: QueryVariables): Promise<T> {
+      const operation = matchOperationName(query) ?? 'anonymous';
+
+      const circuitOpen = consecutiveFailures >= policy.failureThreshold;
+      if (circuitOpen && (openUntil > Date.now() || trialInFlight)) {
+        throw createUpstreamError(source.name, 'circuit-open', operation, 0);
+      }
+
+      // Past the cooldown this query is the trial that decides whether the circuit closes
+      const isTrial = circuitOpen;
+      if (isTrial) {
+        trialInFlight = true;
+        log.info('Sending trial query', { source: source.name, operation });
+      }
+
+      let kind: UpstreamErrorKind = 'unavailable';
+      let lastError: unknown;
+      let attempts = 0;
+      try {
+        while (attempts <= policy.retries) {
+          attempts++;
+          try {
+            const data = await attempt<T>(query, variables);
+            if (consecutiveFailures >= policy.failureThreshold) {
+              log.info('Circuit closed', { source: source.name, operation });
+            }
+            consecutiveFailures = 0;
+            openUntil = 0;
+            return data;
+          } catch (error) {
+            lastError = error;
+            kind = classifyFailure(error);
+            if (kind === 'rejected' || attempts > policy.retries) {
+              break;
+            }
+            const delay = policy.backoffMs * 2 ** (attempts - 1);
+            log.debug('Retrying upstream query', { source: source.name, operation, attempts, kind });
+            await sleep(delay + Math.random() * delay * 0.5);
+          }
+        }
+
+        // A rejected query is our fault, not a sign the source is down
+        if (kind !== 'rejected') {
+          recordFailure(operation);
+        }
+        throw createUpstreamError(source.name, kind, operation, attempts, lastError);
+      } finally {
+        if (isTrial) {
+          trialInFlight = false;
+        }
+      }
+    },
+  };
+}
+
+export function withResilience(
+  provider: DataProvider,
+  policies: Record<DataSourceName, UpstreamPolicy> = DEFAULT_UPSTREAM_POLICIES
+): DataProvider {
+  return {
+    moxie: createResilientSource(provider.moxie, policies.moxie),
+    airstack: createResilientSource(provider.airstack, policies.airstack),
+    vesting: createResilientSource(provider.vesting, policies.vesting),
+  };
+}
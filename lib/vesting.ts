@@ -0,0 +1,80 @@
+import { toUnits } from './format.js';
+import type { VestingContract } from './types.js';
+
+export interface VestingUnlock {
+  timestamp: number;
+  amount: number;
+}
+
+export interface VestingSchedule {
+  managedAmount: number;
+  // Vested so far per the schedule, whether or not it has been released
+  unlockedAmount: number;
+  lockedAmount: number;
+  releasedAmount: number;
+  periods: number;
+  passedPeriods: number;
+  startTime: number;
+  endTime: number;
+  cliffTime: number | null;
+  upcomingUnlocks: VestingUnlock[];
+}
+
+// Mirrors TokenLock.sol: the managed amount unlocks in equal tranches at the
+// end of each period between startTime and endTime, nothing is available
+// before the cliff, and everything is available after endTime.
+export function getVestingSchedule(
+  contract: VestingContract,
+  now: number = Math.floor(Date.now() / 1000),
+  upcomingCount: number = 3
+): VestingSchedule {
+  const managedAmount = toUnits(contract.managedAmount);
+  const releasedAmount = toUnits(contract.tokensReleased);
+  const startTime = parseInt(contract.startTime) || 0;
+  const endTime = parseInt(contract.endTime) || startTime;
+  const periods = Math.max(parseInt(contract.periods) || 1, 1);
+  const cliffTime = parseInt(contract.vestingCliffTime || '0') || null;
+  const periodDuration = (endTime - startTime) / periods;
+  const amountPerPeriod = managedAmount / periods;
+
+  const passedPeriodsAt = (time: number): number => {
+    if (time >= endTime) return periods;
+    if (time < startTime || periodDuration <= 0) return 0;
+    return Math.min(Math.floor((time - startTime) / periodDuration), periods);
+  };
+  const amountAfter = (passed: number): number => passed === periods ? managedAmount : passed * amountPerPeriod;
+
+  const passedPeriods = passedPeriodsAt(now);
+  const beforeCliff = cliffTime !== null && now < cliffTime;
+  const unlockedAmount = beforeCliff ? 0 : amountAfter(passedPeriods);
+
+  // Tranches that fall due before the cliff all unlock together when it passes
+  const upcomingUnlocks: VestingUnlock[] = [];
+  let scheduledAmount = unlockedAmount;
+  let from = passedPeriods;
+  if (beforeCliff) {
+    from = passedPeriodsAt(cliffTime!);
+    if (amountAfter(from) > 0) {
+      upcomingUnlocks.push({ timestamp: cliffTime!, amount: amountAfter(from) });
+      scheduledAmount = amountAfter(from);
+    }
+  }
+  for (let period = from + 1; period <= periods && upcomingUnlocks.length < upcomingCount; period++) {
+    const amount = amountAfter(period) - scheduledAmount;
+    upcomingUnlocks.push({ timestamp: Math.round(startTime + period * periodDuration), amount });
+    scheduledAmount += amount;
+  }
+
+  return {
+    managedAmount,
+    unlockedAmount,
+    lockedAmount: managedAmount - unlockedAmount,
+    releasedAmount,
+    periods,
+    passedPeriods,
+    startTime,
+    endTime,
+    cliffTime,
+    upcomingUnlocks,
+  };
+}
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { checkPriceAlerts, createMemoryAlertStore, createPriceAlert, setAlertStore, type PriceAlert } from '../lib/alerts.js';
+import { setDataProvider } from '../lib/data-sources.js';
+import type { Notifier } from '../lib/notifiers.js';
+import { useMoxieHandler } from './helpers.js';
+
+function createAlert(overrides: Partial<PriceAlert>): PriceAlert {
+  return {
+    id: 'alert',
+    fid: '12345',
+    symbol: 'fid:3',
+    tokenName: 'Dan Romero',
+    thresholdPercent: 10,
+    baselinePrice: 10,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+function createRecordingNotifier(fail = false): Notifier & { sent: { fid: string; message: string }[] } {
+  const sent: { fid: string; message: string }[] = [];
+  return {
+    name: 'recording',
+    sent,
+    async send(fid: string, message: string) {
+      if (fail) {
+        throw new Error('delivery failed');
+      }
+      sent.push({ fid, message });
+    },
+  };
+}
+
+function usePrices(prices: Record<string, string>): void {
+  useMoxieHandler(() => ({
+    subjectTokens: Object.entries(prices).map(([symbol, currentPriceInMoxie]) => ({ symbol, currentPriceInMoxie })),
+  }));
+}
+
+afterEach(() => {
+  setDataProvider(null);
+  setAlertStore(null);
+});
+
+describe('checkPriceAlerts', () => {
+  it('notifies once a move reaches the threshold and re-arms at the new price', async () => {
+    const store = createMemoryAlertStore();
+    await store.save(createAlert({ id: 'up', symbol: 'fid:3', baselinePrice: 10 }));
+    await store.save(createAlert({ id: 'down', symbol: 'fid:2', baselinePrice: 10 }));
+    usePrices({ 'fid:3': '11', 'fid:2': '8.5' });
+    const notifier = createRecordingNotifier();
+
+    const result = await checkPriceAlerts(store, notifier);
+
+    assert.deepEqual(result, { checked: 2, notified: 2, failed: 0 });
+    assert.match(notifier.sent[0].message, /is up 10\.0% to 11\.00 MOXIE/);
+    assert.match(notifier.sent[1].message, /is down 15\.0% to 8\.50 MOXIE/);
+    assert.equal((await store.get('up'))?.baselinePrice, 11);
+    assert.ok((await store.get('up'))?.lastNotifiedAt);
+  });
+
+  it('leaves alerts below the threshold alone', async () => {
+    const store = createMemoryAlertStore();
+    await store.save(createAlert({ baselinePrice: 10 }));
+    usePrices({ 'fid:3': '10.99' });
+    const notifier = createRecordingNotifier();
+
+    const result = await checkPriceAlerts(store, notifier);
+
+    assert.deepEqual(result, { checked: 1, notified: 0, failed: 0 });
+    assert.equal(notifier.sent.length, 0);
+    assert.equal((await store.get('alert'))?.baselinePrice, 10);
+  });
+
+  it('skips tokens without a price', async () => {
+    const store = createMemoryAlertStore();
+    await store.save(createAlert({ symbol: 'fid:404' }));
+    usePrices({});
+
+    const result = await checkPriceAlerts(store, createRecordingNotifier());
+    assert.deepEqual(result, { checked: 1, notified: 0, failed: 0 });
+  });
+
+  it('skips alerts without a usable baseline', async () => {
+    const store = createMemoryAlertStore();
+    await store.save(createAlert({ baselinePrice: NaN }));
+    usePrices({ 'fid:3': '20' });
+    const notifier = createRecordingNotifier();
+
+    const result = await checkPriceAlerts(store, notifier);
+    assert.deepEqual(result, { checked: 1, notified: 0, failed: 0 });
+    assert.equal(notifier.sent.length, 0);
+  });
+
+  it('keeps the baseline when delivery fails so the next run retries', async () => {
+    const store = createMemoryAlertStore();
+    await store.save(createAlert({ baselinePrice: 10 }));
+    usePrices({ 'fid:3': '20' });
+
+    const result = await checkPriceAlerts(store, createRecordingNotifier(true));
+
+    assert.deepEqual(result, { checked: 1, notified: 0, failed: 1 });
+    assert.equal((await store.get('alert'))?.baselinePrice, 10);
+  });
+});
+
+describe('createPriceAlert', () => {
+  it('refuses a baseline that is not a price', async () => {
+    const store = createMemoryAlertStore();
+    setAlertStore(store);
+
+    await assert.rejects(createPriceAlert('12345', 'fid:3', 'Dan Romero', 10, NaN));
+    await assert.rejects(createPriceAlert('12345', 'fid:3', 'Dan Romero', 10, 0));
+    assert.deepEqual(await store.list(), []);
+
+    const alert = await createPriceAlert('12345', 'fid:3', 'Dan Romero', 10, 7.5);
+    assert.equal((await store.get(alert.id))?.baselinePrice, 7.5);
+  });
+});
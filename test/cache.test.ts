@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+import { createCachedSource, createMemoryCacheStore, createRestKeyValueClient, getCacheKey, type CachePolicy } from '../lib/cache.js';
+import type { DataSource } from '../lib/data-sources.js';
+
+const QUERY = 'query GetFanTokenInfo($symbol: String!) { subjectTokens { id } }';
+const POLICY: CachePolicy = { ttlMs: 60 * 1000, staleMs: 5 * 60 * 1000 };
+
+// Answers with the number of upstream requests made so far
+function createCountingSource(): DataSource & { calls: number } {
+  const source = {
+    name: 'moxie' as const,
+    calls: 0,
+    async request<T>(): Promise<T> {
+      source.calls++;
+      return { calls: source.calls } as T;
+    },
+  };
+  return source;
+}
+
+// Lets a background refresh finish before the test looks at the store
+const settleBackgroundWork = () => new Promise(resolve => setImmediate(resolve));
+
+describe('createCachedSource', () => {
+  it('serves a fresh entry without asking upstream', async () => {
+    const source = createCountingSource();
+    const cached = createCachedSource(source, createMemoryCacheStore(), POLICY);
+
+    assert.deepEqual(await cached.request(QUERY, { symbol: 'fid:3' }), { calls: 1 });
+    assert.deepEqual(await cached.request(QUERY, { symbol: 'fid:3' }), { calls: 1 });
+    assert.equal(source.calls, 1);
+  });
+
+  it('caches each set of variables separately', async () => {
+    const source = createCountingSource();
+    const cached = createCachedSource(source, createMemoryCacheStore(), POLICY);
+
+    await cached.request(QUERY, { symbol: 'fid:3' });
+    await cached.request(QUERY, { symbol: 'fid:2' });
+    assert.equal(source.calls, 2);
+  });
+
+  it('serves a stale entry while it refreshes in the background', async () => {
+    const source = createCountingSource();
+    const store = createMemoryCacheStore();
+    const key = getCacheKey('moxie', QUERY, { symbol: 'fid:3' });
+    await store.set(key, { value: { calls: 0 }, storedAt: Date.now() - POLICY.ttlMs - 1 }, POLICY.ttlMs + POLICY.staleMs);
+    const cached = createCachedSource(source, store, POLICY);
+
+    assert.deepEqual(await cached.request(QUERY, { symbol: 'fid:3' }), { calls: 0 });
+    await settleBackgroundWork();
+    assert.equal(source.calls, 1);
+    assert.deepEqual((await store.get(key))?.value, { calls: 1 });
+  });
+
+  it('waits for upstream once an entry is past its stale window', async () => {
+    const source = createCountingSource();
+    const store = createMemoryCacheStore();
+    const key = getCacheKey('moxie', QUERY, { symbol: 'fid:3' });
+    await store.set(key, { value: { calls: 0 }, storedAt: Date.now() - POLICY.ttlMs - POLICY.staleMs }, 1000);
+    const cached = createCachedSource(source, store, POLICY);
+
+    assert.deepEqual(await cached.request(QUERY, { symbol: 'fid:3' }), { calls: 1 });
+  });
+
+  it('shares one upstream request between concurrent callers', async () => {
+    const source = createCountingSource();
+    const cached = createCachedSource(source, createMemoryCacheStore(), POLICY);
+
+    const results = await Promise.all([cached.request(QUERY, { symbol: 'fid:3' }), cached.request(QUERY, { symbol: 'fid:3' })]);
+    assert.deepEqual(results, [{ calls: 1 }, { calls: 1 }]);
+    assert.equal(source.calls, 1);
+  });
+});
+
+describe('getCacheKey', () => {
+  it('ignores the order of variables', () => {
+    assert.equal(getCacheKey('moxie', QUERY, { a: 1, b: [2] }), getCacheKey('moxie', QUERY, { b: [2], a: 1 }));
+    assert.notEqual(getCacheKey('moxie', QUERY), getCacheKey('vesting', QUERY));
+  });
+});
+
+describe('createMemoryCacheStore', () => {
+  it('evicts the least recently used entry past its size', async () => {
+    const store = createMemoryCacheStore(2);
+    await store.set('a', { value: 1, storedAt: 0 }, 1000);
+    await store.set('b', { value: 2, storedAt: 0 }, 1000);
+    await store.get('a');
+    await store.set('c', { value: 3, storedAt: 0 }, 1000);
+
+    assert.equal(await store.get('b'), undefined);
+    assert.equal((await store.get('a'))?.value, 1);
+  });
+
+  it('drops entries once they expire', async () => {
+    const store = createMemoryCacheStore();
+    await store.set('a', { value: 1, storedAt: 0 }, -1);
+    assert.equal(await store.get('a'), undefined);
+  });
+});
+
+describe('createRestKeyValueClient', () => {
+  it('gives up on a store that doesn\'t answer in time', async () => {
+    // Like fetch, settles only when the request is aborted
+    mock.method(globalThis, 'fetch', (_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+    }));
+    try {
+      const client = createRestKeyValueClient('https://kv.example', 'token', 20);
+      await assert.rejects(client.get('a'), { name: 'TimeoutError' });
+    } finally {
+      mock.restoreAll();
+    }
+  });
+});
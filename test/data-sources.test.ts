@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createFixtureProvider, getOperationName } from '../lib/data-sources.js';
+
+const TOKEN_QUERY = 'query GetFanTokenInfo($symbol: String!) { subjectTokens { id } }';
+
+describe('fixture provider', () => {
+  let fixtureDir: string;
+
+  before(async () => {
+    fixtureDir = await mkdtemp(path.join(tmpdir(), 'fixtures-'));
+    await mkdir(path.join(fixtureDir, 'moxie'));
+    await writeFile(path.join(fixtureDir, 'moxie', 'GetFanTokenInfo.json'), JSON.stringify([
+      { variables: { symbol: 'fid:3' }, data: { subjectTokens: [{ id: '0x3' }] } },
+      { variables: { symbol: 'cid:farcaster' }, data: { subjectTokens: [{ id: '0xfc' }] } },
+    ]));
+    await writeFile(path.join(fixtureDir, 'moxie', 'GetOwnedFanTokens.json'), JSON.stringify({ users: [] }));
+  });
+
+  after(async () => {
+    await rm(fixtureDir, { recursive: true, force: true });
+  });
+
+  it('serves a plain fixture file as the response data', async () => {
+    const { moxie } = createFixtureProvider(fixtureDir);
+    assert.deepEqual(await moxie.request('query GetOwnedFanTokens { users { id } }', { userAddress: '0x1' }), { users: [] });
+  });
+
+  it('picks the first case whose variables match', async () => {
+    const { moxie } = createFixtureProvider(fixtureDir);
+    assert.deepEqual(await moxie.request(TOKEN_QUERY, { symbol: 'cid:farcaster' }), { subjectTokens: [{ id: '0xfc' }] });
+  });
+
+  it('fails when no case matches the variables', async () => {
+    const { moxie } = createFixtureProvider(fixtureDir);
+    await assert.rejects(moxie.request(TOKEN_QUERY, { symbol: 'fid:404' }), /No moxie fixture case for GetFanTokenInfo/);
+  });
+
+  it('fails when the operation has no fixture file', async () => {
+    const { airstack } = createFixtureProvider(fixtureDir);
+    await assert.rejects(airstack.request('query GetProfileInfo { Socials { id } }'), /No airstack fixture for operation GetProfileInfo/);
+  });
+});
+
+describe('getOperationName', () => {
+  it('reads the name of a query or mutation', () => {
+    assert.equal(getOperationName(TOKEN_QUERY), 'GetFanTokenInfo');
+    assert.equal(getOperationName('mutation SaveAlert { save }'), 'SaveAlert');
+  });
+
+  it('throws for anonymous queries', () => {
+    assert.throws(() => getOperationName('{ users { id } }'), /operation name/);
+  });
+});
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  formatAmount,
+  formatHolderCount,
+  formatPercent,
+  formatTokenAmount,
+  formatUsd,
+  sumRawAmounts,
+  toDecimalString,
+} from '../lib/format.js';
+
+describe('toDecimalString', () => {
+  it('scales raw amounts without losing digits', () => {
+    assert.equal(toDecimalString('123456789012345678901234567'), '123456789.012345678901234567');
+    assert.equal(toDecimalString('1500000', 6), '1.5');
+  });
+
+  it('returns null for values that are not integers', () => {
+    assert.equal(toDecimalString('1.5'), null);
+    assert.equal(toDecimalString(undefined), null);
+  });
+});
+
+describe('formatTokenAmount', () => {
+  it('formats raw amounts in compact notation', () => {
+    assert.equal(formatTokenAmount('1500000000000000000000'), '1.50K');
+    assert.equal(formatTokenAmount('1500000000000000000000', 18, { compact: false }), '1,500.00');
+  });
+
+  it('shows dust as a lower bound instead of zero', () => {
+    assert.equal(formatTokenAmount('1000000000000'), '<0.01');
+  });
+
+  it('shows N/A for missing amounts', () => {
+    assert.equal(formatTokenAmount(null), 'N/A');
+  });
+});
+
+describe('formatAmount', () => {
+  it('accepts subgraph decimal strings, numbers and bigints', () => {
+    assert.equal(formatAmount('7.215'), '7.22');
+    assert.equal(formatAmount(2300000), '2.30M');
+    assert.equal(formatAmount(12n), '12.00');
+  });
+
+  it('signs gains and losses on request', () => {
+    assert.equal(formatAmount(3.5, { signed: true }), '+3.50');
+    assert.equal(formatAmount(-3.5, { signed: true }), '-3.50');
+  });
+
+  it('rejects malformed input', () => {
+    assert.equal(formatAmount('abc'), 'N/A');
+    assert.equal(formatAmount(NaN), 'N/A');
+  });
+});
+
+describe('formatPercent', () => {
+  it('signs changes by default', () => {
+    assert.equal(formatPercent(12.5), '+12.5%');
+    assert.equal(formatPercent(-3), '-3.0%');
+    assert.equal(formatPercent(12.5, { signed: false }), '12.5%');
+  });
+});
+
+describe('formatUsd', () => {
+  it('keeps four decimals under a dollar', () => {
+    assert.equal(formatUsd(0.0144), '$0.0144');
+    assert.equal(formatUsd(1500), '$1.50K');
+    assert.equal(formatUsd(0.00001), '<$0.0001');
+  });
+});
+
+describe('formatHolderCount', () => {
+  it('marks a capped holder list as a lower bound', () => {
+    const portfolio = Array.from({ length: 1000 }, (_, i) => ({ balance: '1', user: { id: `0x${i}` } }));
+    assert.equal(formatHolderCount({ portfolio, portfolioTruncated: true }), '1K+');
+    assert.equal(formatHolderCount({ portfolio: portfolio.slice(0, 7) }), '7');
+  });
+});
+
+describe('sumRawAmounts', () => {
+  it('adds raw amounts exactly and skips invalid ones', () => {
+    assert.equal(sumRawAmounts(['9007199254740993', '1', null, 'x']), 9007199254740994n);
+  });
+});
@@ -0,0 +1,28 @@
+import { getOperationName, setDataProvider, type DataSource, type DataSourceName, type QueryVariables } from '../lib/data-sources.js';
+
+export type QueryHandler = (operationName: string, variables: QueryVariables) => unknown;
+
+function createHandlerSource(name: DataSourceName, handler: QueryHandler): DataSource {
+  return {
+    name,
+    async request<T>(query: string, variables: QueryVariables = {}): Promise<T> {
+      return handler(getOperationName(query), variables) as T;
+    },
+  };
+}
+
+// Answers each source's queries from its handler; a source without one fails the test if asked
+export function useQueryHandlers(handlers: Partial<Record<DataSourceName, QueryHandler>>): void {
+  const unexpected: QueryHandler = operationName => {
+    throw new Error(`Unexpected query ${operationName}`);
+  };
+  setDataProvider({
+    moxie: createHandlerSource('moxie', handlers.moxie ?? unexpected),
+    airstack: createHandlerSource('airstack', handlers.airstack ?? unexpected),
+    vesting: createHandlerSource('vesting', handlers.vesting ?? unexpected),
+  });
+}
+
+export function useMoxieHandler(handler: QueryHandler): void {
+  useQueryHandlers({ moxie: handler });
+}
@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { setDataProvider } from '../lib/data-sources.js';
+import {
+  getFanTokenHolders,
+  getFanTokenInfoForSymbol,
+  getRecentHourlySnapshots,
+  getTopFanTokenHolders,
+  TOP_HOLDERS_MAX_SKIP,
+} from '../lib/fetchers.js';
+import { useMoxieHandler } from './helpers.js';
+
+// Rows with ids in ascending order, answered the way the subgraph pages by id
+function createRows<T>(count: number, build: (id: string, n: number) => T): T[] {
+  return Array.from({ length: count }, (_, n) => build(`0x${n.toString(16).padStart(6, '0')}`, n));
+}
+
+function pageAfter<T extends { id: string }>(rows: T[], cursor: string, first: number, inclusive = false): T[] {
+  return rows.filter(row => inclusive ? row.id >= cursor : row.id > cursor).slice(0, first);
+}
+
+afterEach(() => {
+  setDataProvider(null);
+});
+
+describe('getFanTokenHolders', () => {
+  const holders = createRows(2500, (id, n) => ({ id, balance: ((n * 7919) % 2500).toString(), user: { id } }));
+
+  it('follows the id cursor until a short page', async () => {
+    const cursors: unknown[] = [];
+    useMoxieHandler((operationName, variables) => {
+      assert.equal(operationName, 'GetFanTokenHolders');
+      cursors.push(variables.cursor);
+      return { portfolios: pageAfter(holders, variables.cursor as string, variables.first as number) };
+    });
+
+    const { holders: result, truncated } = await getFanTokenHolders('0xTOKEN');
+    assert.equal(result.length, 2500);
+    assert.equal(truncated, false);
+    assert.deepEqual(cursors, ['', holders[999].id, holders[1999].id]);
+  });
+
+  it('sorts by balance, largest first', async () => {
+    useMoxieHandler((_, variables) => ({ portfolios: pageAfter(holders, variables.cursor as string, variables.first as number) }));
+
+    const { holders: result } = await getFanTokenHolders('0xtoken');
+    const balances = result.map(holder => BigInt(holder.balance));
+    assert.ok(balances.every((balance, i) => i === 0 || balances[i - 1] >= balance));
+  });
+
+  it('stops at the page cap and reports the list as truncated', async () => {
+    useMoxieHandler((_, variables) => ({ portfolios: pageAfter(holders, variables.cursor as string, variables.first as number) }));
+
+    const { holders: result, truncated } = await getFanTokenHolders('0xtoken', 1);
+    assert.equal(result.length, 1000);
+    assert.equal(truncated, true);
+  });
+
+  it('drops rows repeated across pages', async () => {
+    // A source that includes the cursor row again on every page
+    useMoxieHandler((_, variables) => ({ portfolios: pageAfter(holders, variables.cursor as string, variables.first as number, true) }));
+
+    const { holders: result } = await getFanTokenHolders('0xtoken');
+    assert.equal(result.length, 2500);
+    assert.equal(new Set(result.map(holder => holder.user.id)).size, 2500);
+  });
+});
+
+describe('getTopFanTokenHolders', () => {
+  it('asks for one page ranked by balance', async () => {
+    const requests: unknown[] = [];
+    useMoxieHandler((operationName, variables) => {
+      assert.equal(operationName, 'GetTopFanTokenHolders');
+      requests.push(variables);
+      return { portfolios: [{ balance: '5', user: { id: '0x1' } }] };
+    });
+
+    assert.deepEqual(await getTopFanTokenHolders('0xTOKEN', 6, 10), [{ balance: '5', user: { id: '0x1' } }]);
+    assert.deepEqual(requests, [{ subjectToken: '0xtoken', first: 6, skip: 10 }]);
+  });
+
+  it('keeps skip within the subgraph\'s limit', async () => {
+    let skip: unknown;
+    useMoxieHandler((_, variables) => {
+      skip = variables.skip;
+      return { portfolios: [] };
+    });
+
+    await getTopFanTokenHolders('0xtoken', 6, TOP_HOLDERS_MAX_SKIP + 5);
+    assert.equal(skip, TOP_HOLDERS_MAX_SKIP);
+  });
+});
+
+describe('getFanTokenInfoForSymbol', () => {
+  function useToken(holderCount: number): void {
+    const holders = createRows(holderCount, (id, n) => ({ balance: (holderCount - n).toString(), user: { id } }));
+    useMoxieHandler((operationName, variables) => {
+      switch (operationName) {
+        case 'GetFanTokenAddress':
+          return { subjectTokens: [{ address: '0xtoken', name: 'Dan Romero', symbol: 'fid:3', decimals: 18 }] };
+        case 'GetFanTokenInfo':
+          return { subjectTokens: [{ id: '0xtoken', name: 'Dan Romero', symbol: 'fid:3', decimals: 18, currentPriceInMoxie: '1' }] };
+        case 'GetTopFanTokenHolders':
+          assert.equal(variables.skip, 0);
+          return { portfolios: holders.slice(0, variables.first as number) };
+      }
+      throw new Error(`Unexpected query ${operationName}`);
+    });
+  }
+
+  it('carries the largest holders with the token', async () => {
+    useToken(3);
+    const subjectToken = (await getFanTokenInfoForSymbol('fid:3'))?.subjectTokens[0];
+    assert.deepEqual(subjectToken?.portfolio.map(holder => holder.balance), ['3', '2', '1']);
+    assert.equal(subjectToken?.portfolioTruncated, false);
+  });
+
+  it('marks a full page of holders as a lower bound', async () => {
+    useToken(1200);
+    const subjectToken = (await getFanTokenInfoForSymbol('fid:3'))?.subjectTokens[0];
+    assert.equal(subjectToken?.portfolio.length, 1000);
+    assert.equal(subjectToken?.portfolioTruncated, true);
+  });
+});
+
+describe('getRecentHourlySnapshots', () => {
+  it('keeps every snapshot when many share a timestamp', async () => {
+    const snapshots = createRows(1500, id => ({
+      id,
+      startTimestamp: '1729382400',
+      startPrice: '1',
+      endPrice: '1',
+      hourlyVolume: '0',
+      startUniqueHolders: '1',
+      endUniqueHolders: '1',
+      subjectToken: { id, name: id, symbol: `fid:${id}`, currentPriceInMoxie: '1' },
+    }));
+    useMoxieHandler((operationName, variables) => {
+      assert.equal(operationName, 'GetRecentHourlySnapshots');
+      return { subjectTokenHourlySnapshots: pageAfter(snapshots, variables.cursor as string, variables.first as number) };
+    });
+
+    const result = await getRecentHourlySnapshots();
+    assert.equal(result.length, 1500);
+    assert.equal(new Set(result.map(snapshot => snapshot.id)).size, 1500);
+  });
+});
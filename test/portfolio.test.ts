@@ -0,0 +1,153 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { applyHoldingsView, DEFAULT_HOLDINGS_VIEW, getHoldingPnl, getHoldingValue, summarizePortfolio } from '../lib/portfolio.js';
+import type { TokenHolding, TradeOrder } from '../lib/types.js';
+
+// Whole and hundredths of a token as a raw 18-decimal amount
+function wei(amount: number): string {
+  return (BigInt(Math.round(amount * 100)) * 10n ** 16n).toString();
+}
+
+function createHolding(symbol: string, balance: number, price: number, bought: number, sold: number = 0): TokenHolding {
+  return {
+    balance: wei(balance),
+    buyVolume: wei(bought),
+    sellVolume: wei(sold),
+    subjectToken: { name: symbol, symbol, currentPriceInMoxie: price.toString(), decimals: 18 },
+  };
+}
+
+describe('getHoldingValue', () => {
+  it('values the balance at the current price', () => {
+    assert.equal(getHoldingValue(createHolding('fid:3', 100, 0.5, 0)), 50);
+  });
+
+  it('counts a holding without a price as worthless', () => {
+    const holding = createHolding('fid:3', 100, 0, 0);
+    holding.subjectToken.currentPriceInMoxie = '';
+    assert.equal(getHoldingValue(holding), 0);
+  });
+});
+
+describe('summarizePortfolio', () => {
+  const holdings = [
+    // Worth 50 after investing 40
+    createHolding('fid:3', 100, 0.5, 40),
+    // Sold 20 more than was bought, and 10 tokens worth 20 are left
+    createHolding('fid:2', 10, 2, 10, 30),
+    createHolding('fid:1', 0, 1, 5, 5),
+  ];
+
+  it('adds up value, volumes and P&L', () => {
+    const summary = summarizePortfolio(holdings);
+    assert.equal(summary.totalValue, 70);
+    assert.equal(summary.buyVolume, 55);
+    assert.equal(summary.sellVolume, 35);
+    assert.equal(summary.realisedPnl, 20);
+    assert.equal(summary.unrealisedPnl, 30);
+    assert.equal(summary.holdingsCount, 3);
+  });
+
+  it('lists the most valuable holdings first and leaves out empty ones', () => {
+    const summary = summarizePortfolio(holdings);
+    assert.deepEqual(summary.topHoldings.map(valuation => valuation.holding.subjectToken.symbol), ['fid:3', 'fid:2']);
+    assert.equal(summarizePortfolio(holdings, 1).topHoldings.length, 1);
+  });
+
+  it('counts a token held in two wallets once', () => {
+    const summary = summarizePortfolio([...holdings, { ...createHolding('fid:3', 10, 0.5, 5), address: '0xverified' }]);
+    assert.equal(summary.holdingsCount, 4);
+    assert.equal(summary.tokenCount, 3);
+  });
+});
+
+describe('applyHoldingsView', () => {
+  const holdings = [
+    createHolding('fid:3', 100, 0.5, 80),
+    createHolding('cid:farcaster', 10, 4, 20),
+    createHolding('fid:2', 1000, 0.01, 5),
+  ];
+  const symbols = (result: TokenHolding[]) => result.map(holding => holding.subjectToken.symbol);
+
+  it('sorts by value by default', () => {
+    assert.deepEqual(symbols(applyHoldingsView(holdings, DEFAULT_HOLDINGS_VIEW)), ['fid:3', 'cid:farcaster', 'fid:2']);
+  });
+
+  it('sorts by balance, buy volume and price', () => {
+    assert.deepEqual(symbols(applyHoldingsView(holdings, { ...DEFAULT_HOLDINGS_VIEW, sort: 'balance' })), ['fid:2', 'fid:3', 'cid:farcaster']);
+    assert.deepEqual(symbols(applyHoldingsView(holdings, { ...DEFAULT_HOLDINGS_VIEW, sort: 'buyVolume' })), ['fid:3', 'cid:farcaster', 'fid:2']);
+    assert.deepEqual(symbols(applyHoldingsView(holdings, { ...DEFAULT_HOLDINGS_VIEW, sort: 'price' })), ['cid:farcaster', 'fid:3', 'fid:2']);
+  });
+
+  it('sorts by latest purchase with unknown ones last', () => {
+    const lastPurchases = { 'fid:2': 200, 'cid:farcaster': 100 };
+    const result = applyHoldingsView(holdings, { ...DEFAULT_HOLDINGS_VIEW, sort: 'recent' }, lastPurchases);
+    assert.deepEqual(symbols(result), ['fid:2', 'cid:farcaster', 'fid:3']);
+  });
+
+  it('filters user or channel tokens and hides dust', () => {
+    assert.deepEqual(symbols(applyHoldingsView(holdings, { ...DEFAULT_HOLDINGS_VIEW, type: 'users' })), ['fid:3', 'fid:2']);
+    assert.deepEqual(symbols(applyHoldingsView(holdings, { ...DEFAULT_HOLDINGS_VIEW, type: 'channels' })), ['cid:farcaster']);
+    assert.deepEqual(symbols(applyHoldingsView(holdings, { ...DEFAULT_HOLDINGS_VIEW, minValue: 20 })), ['fid:3', 'cid:farcaster']);
+  });
+
+  it('keeps only the selected wallet', () => {
+    const inWallets = [
+      { ...holdings[0], address: '0xCustody' },
+      { ...holdings[1], address: '0xverified' },
+      { ...holdings[2], address: '0xcustody' },
+    ];
+    const result = applyHoldingsView(inWallets, { ...DEFAULT_HOLDINGS_VIEW, wallet: '0xcustody' });
+    assert.deepEqual(symbols(result), ['fid:3', 'fid:2']);
+  });
+});
+
+describe('getHoldingPnl', () => {
+  const assertClose = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+
+  function createTrade(orderType: TradeOrder['orderType'], tokens: number, moxie: number, blockTimestamp: number): TradeOrder {
+    return {
+      orderType,
+      subjectAmount: wei(tokens),
+      protocolTokenAmount: wei(moxie),
+      price: (moxie / tokens).toString(),
+      blockTimestamp: blockTimestamp.toString(),
+      user: { id: '0xcustody' },
+    };
+  }
+
+  it('averages the entry price over buys and keeps it through sells', () => {
+    const holding = createHolding('fid:3', 150, 2, 0);
+    const trades = [
+      // Newest first, as the subgraph returns them
+      createTrade('BUY', 100, 300, 3),
+      createTrade('SELL', 50, 150, 2),
+      createTrade('BUY', 100, 100, 1),
+    ];
+
+    const pnl = getHoldingPnl(holding, trades);
+    // 50 tokens left at 1 MOXIE each plus 100 at 3
+    assert.equal(pnl.source, 'trades');
+    assertClose(pnl.averageEntryPrice, 350 / 150);
+    assertClose(pnl.costBasis, 350);
+    assertClose(pnl.unrealisedPnl, -50);
+    assertClose(pnl.unrealisedPnlPercent, (-50 / 350) * 100);
+    assert.equal(pnl.currentValue, 300);
+  });
+
+  it('estimates from the aggregate volumes without a trade history', () => {
+    const pnl = getHoldingPnl(createHolding('fid:3', 100, 0.5, 60, 20));
+    assert.equal(pnl.source, 'volumes');
+    assertClose(pnl.averageEntryPrice, 0.4);
+    assertClose(pnl.costBasis, 40);
+    assertClose(pnl.unrealisedPnl, 10);
+    assertClose(pnl.unrealisedPnlPercent, 25);
+  });
+
+  it('falls back to the volumes when every bought token was sold', () => {
+    const trades = [createTrade('BUY', 10, 10, 1), createTrade('SELL', 10, 20, 2)];
+    const pnl = getHoldingPnl(createHolding('fid:3', 5, 1, 10, 5), trades);
+    assert.equal(pnl.source, 'volumes');
+    assertClose(pnl.costBasis, 5);
+  });
+});
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { createFixedRateSource, getMoxieUsdRate, setPriceSource, type PriceSource } from '../lib/prices.js';
+
+afterEach(() => {
+  setPriceSource(null);
+});
+
+describe('getMoxieUsdRate', () => {
+  it('reads the rate from the configured source', async () => {
+    setPriceSource(createFixedRateSource(0.0025));
+    assert.equal(await getMoxieUsdRate(), 0.0025);
+  });
+
+  it('returns null when no rate has ever loaded', async () => {
+    setPriceSource({ name: 'down', getMoxieUsdRate: () => Promise.reject(new Error('down')) });
+    assert.equal(await getMoxieUsdRate(), null);
+  });
+
+  it('caches the rate instead of asking the source on every render', async () => {
+    let calls = 0;
+    const source: PriceSource = {
+      name: 'counting',
+      async getMoxieUsdRate() {
+        calls++;
+        return 0.002;
+      },
+    };
+    setPriceSource(source);
+
+    await getMoxieUsdRate();
+    await getMoxieUsdRate();
+    assert.equal(calls, 1);
+  });
+});
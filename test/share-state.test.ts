@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { SHARE_STATE_MAX_AGE_MS, signShareState, verifyShareState } from '../lib/share-state.js';
+
+describe('share state', () => {
+  before(() => {
+    process.env.SHARE_SECRET = 'test-secret';
+  });
+
+  it('round-trips a signed payload', () => {
+    const token = signShareState({ fid: '3', currentPrice: '7.22' }, 1000);
+    assert.deepEqual(verifyShareState(token, SHARE_STATE_MAX_AGE_MS, 2000), { fid: '3', currentPrice: '7.22', ts: 1000 });
+  });
+
+  it('rejects an edited payload', () => {
+    const [, signature] = signShareState({ fid: '3', currentPrice: '7.22' }).split('.');
+    const forged = Buffer.from(JSON.stringify({ fid: '3', currentPrice: '9999', ts: Date.now() })).toString('base64url');
+    assert.equal(verifyShareState(`${forged}.${signature}`), null);
+  });
+
+  it('rejects a payload signed with another secret', () => {
+    const token = signShareState({ fid: '3' });
+    process.env.SHARE_SECRET = 'other-secret';
+    try {
+      assert.equal(verifyShareState(token), null);
+    } finally {
+      process.env.SHARE_SECRET = 'test-secret';
+    }
+  });
+
+  it('rejects expired and malformed payloads', () => {
+    const token = signShareState({ fid: '3' }, 0);
+    assert.equal(verifyShareState(token, SHARE_STATE_MAX_AGE_MS, SHARE_STATE_MAX_AGE_MS + 1), null);
+    assert.equal(verifyShareState('not-a-token'), null);
+    assert.equal(verifyShareState(undefined), null);
+  });
+});
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { rankTrendingTokens, summarizeTrendingTokens, type TrendingToken } from '../lib/trending.js';
+import type { SubjectTokenSnapshot } from '../lib/types.js';
+
+const HOUR = 60 * 60;
+
+function createSnapshot(
+  tokenId: string,
+  hour: number,
+  prices: [string, string],
+  holders: [string, string],
+  volume: string
+): SubjectTokenSnapshot {
+  return {
+    id: `${tokenId}-${hour}`,
+    startTimestamp: (1729382400 + hour * HOUR).toString(),
+    startPrice: prices[0],
+    endPrice: prices[1],
+    hourlyVolume: volume,
+    startUniqueHolders: holders[0],
+    endUniqueHolders: holders[1],
+    subjectToken: { id: tokenId, name: tokenId, symbol: `fid:${tokenId}`, currentPriceInMoxie: prices[1] },
+  };
+}
+
+function createToken(symbol: string, volume: number, priceChangePercent: number, newHolders: number): TrendingToken {
+  return { symbol, name: symbol, currentPrice: 1, volume, priceChangePercent, newHolders };
+}
+
+describe('summarizeTrendingTokens', () => {
+  it('folds each token\'s hours into one figure from first to last hour', () => {
+    // Out of order, as pages of snapshots can arrive
+    const [token] = summarizeTrendingTokens([
+      createSnapshot('3', 1, ['1.5', '2'], ['12', '15'], '3000000000000000000000'),
+      createSnapshot('3', 0, ['1', '1.5'], ['10', '12'], '1000000000000000000000'),
+    ]);
+
+    assert.equal(token.symbol, 'fid:3');
+    assert.equal(token.volume, 4000);
+    assert.equal(token.priceChangePercent, 100);
+    assert.equal(token.newHolders, 5);
+    assert.equal(token.currentPrice, 2);
+  });
+
+  it('keeps tokens apart', () => {
+    const tokens = summarizeTrendingTokens([
+      createSnapshot('3', 0, ['1', '1'], ['1', '1'], '0'),
+      createSnapshot('2', 0, ['1', '1'], ['1', '1'], '0'),
+    ]);
+    assert.deepEqual(tokens.map(token => token.symbol).sort(), ['fid:2', 'fid:3']);
+  });
+});
+
+describe('rankTrendingTokens', () => {
+  const tokens = [
+    createToken('fid:1', 5000, 10, 2),
+    createToken('fid:2', 50, 400, 30),
+    createToken('fid:3', 1000, 40, 8),
+  ];
+  const symbols = (ranked: TrendingToken[]) => ranked.map(token => token.symbol);
+
+  it('ranks by volume or new holders', () => {
+    assert.deepEqual(symbols(rankTrendingTokens(tokens, 'volume', 3)), ['fid:1', 'fid:3', 'fid:2']);
+    assert.deepEqual(symbols(rankTrendingTokens(tokens, 'newHolders', 2)), ['fid:2', 'fid:3']);
+  });
+
+  it('leaves barely-traded tokens out of the price ranking', () => {
+    assert.deepEqual(symbols(rankTrendingTokens(tokens, 'priceChange', 3)), ['fid:3', 'fid:1']);
+    assert.deepEqual(symbols(rankTrendingTokens(tokens, 'priceChange', 3, 0)), ['fid:2', 'fid:3', 'fid:1']);
+  });
+});
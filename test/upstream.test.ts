@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { DataSource } from '../lib/data-sources.js';
+import {
+  createLatencyBudget,
+  createResilientSource,
+  createUpstreamError,
+  isDeadlineError,
+  isUpstreamError,
+  type UpstreamError,
+  type UpstreamPolicy,
+} from '../lib/upstream.js';
+
+const QUERY = 'query GetFanTokenInfo { subjectTokens { id } }';
+const POLICY: UpstreamPolicy = { timeoutMs: 50, retries: 1, backoffMs: 1, failureThreshold: 2, cooldownMs: 60 * 1000 };
+
+// graphql-request's ClientError carries the HTTP response
+function createHttpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { response: { status } });
+}
+
+// Plays back one outcome per attempt; 'hang' never answers
+type Outcome = 'ok' | 'hang' | Error;
+
+function createScriptedSource(outcomes: Outcome[]): DataSource & { calls: number } {
+  const source = {
+    name: 'moxie' as const,
+    calls: 0,
+    async request<T>(): Promise<T> {
+      const outcome = outcomes[Math.min(source.calls++, outcomes.length - 1)];
+      if (outcome === 'hang') return new Promise<T>(() => {});
+      if (outcome instanceof Error) throw outcome;
+      return { ok: true } as T;
+    },
+  };
+  return source;
+}
+
+async function requestError(source: DataSource): Promise<UpstreamError> {
+  try {
+    await source.request(QUERY);
+  } catch (error) {
+    assert.ok(isUpstreamError(error), `expected an UpstreamError, got ${error}`);
+    return error;
+  }
+  assert.fail('expected the query to fail');
+}
+
+describe('createResilientSource', () => {
+  it('retries a failed attempt and returns the retry\'s answer', async () => {
+    const source = createScriptedSource([createHttpError(503), 'ok']);
+    assert.deepEqual(await createResilientSource(source, POLICY).request(QUERY), { ok: true });
+    assert.equal(source.calls, 2);
+  });
+
+  it('gives up after the retries with the kind of the last failure', async () => {
+    const source = createScriptedSource([createHttpError(503), new Error('fetch failed')]);
+    const error = await requestError(createResilientSource(source, POLICY));
+    assert.equal(error.kind, 'unavailable');
+    assert.equal(error.source, 'moxie');
+    assert.equal(error.operation, 'GetFanTokenInfo');
+    assert.equal(error.attempts, 2);
+  });
+
+  it('does not retry a query the source rejected', async () => {
+    const source = createScriptedSource([createHttpError(400)]);
+    const error = await requestError(createResilientSource(source, POLICY));
+    assert.equal(error.kind, 'rejected');
+    assert.equal(source.calls, 1);
+  });
+
+  it('times out attempts that take too long', async () => {
+    const source = createScriptedSource(['hang']);
+    const error = await requestError(createResilientSource(source, POLICY));
+    assert.equal(error.kind, 'timeout');
+    assert.equal(error.attempts, 2);
+  });
+
+  it('opens the circuit after repeated failures and fails fast while open', async () => {
+    const source = createScriptedSource([createHttpError(503)]);
+    const resilient = createResilientSource(source, POLICY);
+
+    await requestError(resilient);
+    await requestError(resilient);
+    const callsBefore = source.calls;
+    const error = await requestError(resilient);
+
+    assert.equal(error.kind, 'circuit-open');
+    assert.equal(error.attempts, 0);
+    assert.equal(source.calls, callsBefore);
+  });
+
+  it('does not count rejected queries towards opening the circuit', async () => {
+    const source = createScriptedSource([createHttpError(400), createHttpError(400), 'ok']);
+    const resilient = createResilientSource(source, POLICY);
+
+    await requestError(resilient);
+    await requestError(resilient);
+    assert.deepEqual(await resilient.request(QUERY), { ok: true });
+  });
+
+  it('lets queries through again after the cooldown and closes on success', async () => {
+    const source = createScriptedSource([createHttpError(503), createHttpError(503), 'ok']);
+    const resilient = createResilientSource(source, { ...POLICY, retries: 0, cooldownMs: 20 });
+
+    await requestError(resilient);
+    await requestError(resilient);
+    assert.equal((await requestError(resilient)).kind, 'circuit-open');
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    assert.deepEqual(await resilient.request(QUERY), { ok: true });
+    assert.deepEqual(await resilient.request(QUERY), { ok: true });
+  });
+
+  it('lets a single trial query through after the cooldown', async () => {
+    const source = createScriptedSource([createHttpError(503), createHttpError(503), 'ok']);
+    const resilient = createResilientSource(source, { ...POLICY, retries: 0, cooldownMs: 20 });
+
+    await requestError(resilient);
+    await requestError(resilient);
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    const [trial, other] = await Promise.allSettled([resilient.request(QUERY), resilient.request(QUERY)]);
+    assert.deepEqual(trial, { status: 'fulfilled', value: { ok: true } });
+    assert.equal(other.status === 'rejected' && other.reason.kind, 'circuit-open');
+    assert.equal(source.calls, 3);
+  });
+
+  it('restarts the cooldown when the trial fails', async () => {
+    const source = createScriptedSource([createHttpError(503)]);
+    const resilient = createResilientSource(source, { ...POLICY, retries: 0, cooldownMs: 20 });
+
+    await requestError(resilient);
+    await requestError(resilient);
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    assert.equal((await requestError(resilient)).kind, 'unavailable');
+    assert.equal((await requestError(resilient)).kind, 'circuit-open');
+  });
+});
+
+describe('createLatencyBudget', () => {
+  const never = new Promise<string>(() => {});
+
+  it('fails required data that misses the deadline', async () => {
+    const budget = createLatencyBudget(20);
+    await assert.rejects(budget.required(never), error => isDeadlineError(error));
+  });
+
+  it('replaces optional data with the fallback on a deadline or upstream failure', async () => {
+    const budget = createLatencyBudget(20);
+    assert.equal(await budget.optional(never, 'fallback'), 'fallback');
+    assert.equal(await budget.optional(Promise.reject(createUpstreamError('airstack', 'timeout', 'GetPowerboostScore', 2)), 0), 0);
+    assert.equal(await budget.optional(Promise.resolve(7), 0), 7);
+  });
+
+  it('passes other errors through', async () => {
+    const budget = createLatencyBudget(20);
+    await assert.rejects(budget.optional(Promise.reject(new Error('bug')), 0), /bug/);
+  });
+});
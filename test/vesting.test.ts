@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getVestingSchedule } from '../lib/vesting.js';
+import type { VestingContract } from '../lib/types.js';
+
+const DAY = 24 * 60 * 60;
+const START = 1700000000;
+
+// 1,200 MOXIE over 12 monthly-ish periods of 30 days
+function createContract(overrides: Partial<VestingContract> = {}): VestingContract {
+  return {
+    address: '0xlock',
+    beneficiary: '0xcustody',
+    managedAmount: (1200n * 10n ** 18n).toString(),
+    tokensReleased: (100n * 10n ** 18n).toString(),
+    startTime: START.toString(),
+    endTime: (START + 360 * DAY).toString(),
+    periods: '12',
+    ...overrides,
+  };
+}
+
+describe('getVestingSchedule', () => {
+  it('unlocks one tranche at the end of each period', () => {
+    const schedule = getVestingSchedule(createContract(), START + 65 * DAY);
+    assert.equal(schedule.passedPeriods, 2);
+    assert.equal(schedule.unlockedAmount, 200);
+    assert.equal(schedule.lockedAmount, 1000);
+    assert.equal(schedule.releasedAmount, 100);
+    assert.deepEqual(schedule.upcomingUnlocks, [
+      { timestamp: START + 90 * DAY, amount: 100 },
+      { timestamp: START + 120 * DAY, amount: 100 },
+      { timestamp: START + 150 * DAY, amount: 100 },
+    ]);
+  });
+
+  it('has nothing unlocked before the start and everything after the end', () => {
+    assert.equal(getVestingSchedule(createContract(), START - DAY).unlockedAmount, 0);
+
+    const finished = getVestingSchedule(createContract(), START + 400 * DAY);
+    assert.equal(finished.unlockedAmount, 1200);
+    assert.equal(finished.lockedAmount, 0);
+    assert.deepEqual(finished.upcomingUnlocks, []);
+  });
+
+  it('holds back tranches until the cliff and then unlocks them together', () => {
+    const contract = createContract({ vestingCliffTime: (START + 100 * DAY).toString() });
+    const schedule = getVestingSchedule(contract, START + 65 * DAY);
+
+    assert.equal(schedule.unlockedAmount, 0);
+    assert.equal(schedule.cliffTime, START + 100 * DAY);
+    assert.deepEqual(schedule.upcomingUnlocks, [
+      { timestamp: START + 100 * DAY, amount: 300 },
+      { timestamp: START + 120 * DAY, amount: 100 },
+      { timestamp: START + 150 * DAY, amount: 100 },
+    ]);
+  });
+
+  it('lists only as many upcoming unlocks as asked for', () => {
+    assert.equal(getVestingSchedule(createContract(), START, 1).upcomingUnlocks.length, 1);
+  });
+});
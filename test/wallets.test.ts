@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { setDataProvider } from '../lib/data-sources.js';
+import { getHoldingWalletsForFID } from '../lib/fetchers.js';
+import { createUpstreamError } from '../lib/upstream.js';
+import { useQueryHandlers } from './helpers.js';
+
+const addresses = () => ({
+  Socials: {
+    Social: [{ userAddress: '0xCUSTODY', userAssociatedAddresses: ['0xCUSTODY', '0xVerified'] }],
+  },
+});
+
+afterEach(() => {
+  setDataProvider(null);
+});
+
+describe('getHoldingWalletsForFID', () => {
+  it('lists custody, verified and lock wallets', async () => {
+    useQueryHandlers({
+      airstack: addresses,
+      vesting: () => ({ tokenLockWallets: [{ address: '0xLOCK' }] }),
+    });
+
+    assert.deepEqual(await getHoldingWalletsForFID('3'), [
+      { address: '0xcustody', kind: 'custody' },
+      { address: '0xverified', kind: 'verified' },
+      { address: '0xlock', kind: 'vesting' },
+    ]);
+  });
+
+  it('still lists the user\'s own wallets while the vesting subgraph fails', async () => {
+    useQueryHandlers({
+      airstack: addresses,
+      vesting: operationName => {
+        throw createUpstreamError('vesting', 'unavailable', operationName, 2);
+      },
+    });
+
+    assert.deepEqual((await getHoldingWalletsForFID('3')).map(wallet => wallet.kind), ['custody', 'verified']);
+  });
+
+  it('fails when the addresses themselves can\'t be loaded', async () => {
+    useQueryHandlers({
+      airstack: operationName => {
+        throw createUpstreamError('airstack', 'timeout', operationName, 2);
+      },
+    });
+
+    await assert.rejects(getHoldingWalletsForFID('3'), { name: 'UpstreamError', source: 'airstack' });
+  });
+});
@@ -2,5 +2,22 @@ declare namespace NodeJS {
   interface ProcessEnv {
     AIRSTACK_API_KEY: string;
     NEYNAR_API_KEY: string;
+    DATA_SOURCE?: 'live' | 'fixture';
+    FIXTURE_DIR?: string;
+    CACHE_DISABLED?: string;
+    SHARE_SECRET?: string;
+    ALERT_NOTIFIER?: 'direct-cast' | 'neynar' | 'webhook' | 'stub';
+    WARPCAST_API_KEY?: string;
+    NEYNAR_SIGNER_UUID?: string;
+    ALERT_WEBHOOK_URL?: string;
+    CRON_SECRET?: string;
+    KV_REST_API_URL?: string;
+    KV_REST_API_TOKEN?: string;
+    LOG_LEVEL?: 'debug' | 'info' | 'warn' | 'error';
+    LOG_REDACT_ADDRESSES?: string;
+    NUMBER_LOCALE?: string;
+    PRICE_SOURCE?: 'coingecko' | 'fixed';
+    MOXIE_USD_RATE?: string;
+    COINGECKO_API_KEY?: string;
   }
-}
\ No newline at end of file
+}